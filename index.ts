@@ -2,4 +2,33 @@ export {
   DsnToCircuitJsonConverter,
   convertDsnToCircuitJson,
 } from "./lib/dsn-to-circuit-json"
-export type { ConverterContext } from "./lib/dsn-to-circuit-json"
+export type {
+  ConverterContext,
+  DsnElementCategory,
+  DsnNetDesignRules,
+  DsnToCircuitJsonConverterOptions,
+} from "./lib/dsn-to-circuit-json"
+export {
+  SesToCircuitJsonConverter,
+  convertSesToCircuitJson,
+} from "./lib/ses-to-circuit-json"
+export { convertDsnAndSesToCircuitJson } from "./lib/convertDsnAndSesToCircuitJson"
+export type {
+  SesConverterContext,
+  SesToCircuitJsonConverterOptions,
+} from "./lib/ses-to-circuit-json"
+export {
+  UnresolvedReferenceError,
+  UnknownImageError,
+  UnknownPadstackError,
+  UnresolvedPinRefError,
+  UnknownComponentError,
+  UnknownNetError,
+} from "./lib/utils"
+export type {
+  ConverterDiagnostic,
+  ConverterDiagnosticCode,
+  ConverterDiagnosticSeverity,
+  DsnOrigin,
+  YOrientation,
+} from "./lib/utils"
@@ -1,8 +1,51 @@
+import type Flatten from "@flatten-js/core"
 import { BaseSolver } from "@tscircuit/solver-utils"
-import type { PcbTrace, PcbVia } from "circuit-json"
-import type { SpectraDsn } from "dsnts"
+import type {
+  LayerRef,
+  PcbTrace,
+  PcbTraceError,
+  PcbTraceRoutePointWire,
+  PcbVia,
+} from "circuit-json"
+import { getPadShapeCenter, type PadShape } from "./utils/getPadShape"
+import {
+  getPointToPadShapeDistance,
+  getPointToPolylineDistance,
+  Point,
+  projectPointOntoPolyline,
+} from "./utils/geometryUtils"
 
+/**
+ * Hanging fragments are attached when the gap between their end and copper
+ * of the same net is at most this many mm
+ */
+const DEFAULT_ATTACH_TOLERANCE = 0.2
+
+interface AttachTarget {
+  gap: number
+  point: { x: number; y: number }
+  pcbPortId?: string
+}
+
+/**
+ * Tries to attach traces and vias that weren't reachable from any pad to
+ * the nearest pad-attached trace, via or pad of the same net. Every pass
+ * over the hanging fragments can attach new copper that other fragments
+ * then attach to. Once a pass attaches nothing, the remaining fragments
+ * are kept in the output and reported as pcb_trace_error elements.
+ */
 export class HangingTraceSolver extends BaseSolver {
+  attachedTraces: PcbTrace[]
+  attachedVias: PcbVia[]
+  hangingTraces: PcbTrace[]
+  hangingVias: PcbVia[]
+  traceErrors: PcbTraceError[] = []
+  /**
+   * Net name of the fragment each trace error reports, keyed by
+   * pcb_trace_error_id
+   */
+  netNameByTraceErrorId = new Map<string, string>()
+
   constructor(
     private input: {
       hangingTraces: PcbTrace[]
@@ -10,15 +53,294 @@ export class HangingTraceSolver extends BaseSolver {
 
       padAttachedTraces: PcbTrace[]
       padAttachedVias: PcbVia[]
+
+      /**
+       * Net name of every trace and via, keyed by pcb_trace_id/pcb_via_id
+       */
+      netNameByPcbElementId?: Map<string, string>
+      pads?: Array<{
+        pcbPortId: string
+        netNames: string[]
+        layers: LayerRef[]
+        shape: PadShape
+      }>
+      tolerance?: number
     },
   ) {
     super()
+    this.attachedTraces = [...input.padAttachedTraces]
+    this.attachedVias = [...input.padAttachedVias]
+    this.hangingTraces = [...input.hangingTraces]
+    this.hangingVias = [...input.hangingVias]
+  }
+
+  override _step(): void {
+    const stillHangingTraces: PcbTrace[] = []
+    for (const trace of this.hangingTraces) {
+      if (this.tryAttachTrace(trace)) {
+        this.attachedTraces.push(trace)
+      } else {
+        stillHangingTraces.push(trace)
+      }
+    }
+
+    const stillHangingVias: PcbVia[] = []
+    for (const via of this.hangingVias) {
+      if (this.tryAttachVia(via)) {
+        this.attachedVias.push(via)
+      } else {
+        stillHangingVias.push(via)
+      }
+    }
+
+    const attachedCount =
+      this.hangingTraces.length -
+      stillHangingTraces.length +
+      this.hangingVias.length -
+      stillHangingVias.length
+    this.hangingTraces = stillHangingTraces
+    this.hangingVias = stillHangingVias
+
+    if (attachedCount > 0) return
+
+    this.reportHangingFragments()
+    this.solved = true
+  }
+
+  private get tolerance(): number {
+    return this.input.tolerance ?? DEFAULT_ATTACH_TOLERANCE
+  }
+
+  private getNetName(pcbElementId: string): string | undefined {
+    return this.input.netNameByPcbElementId?.get(pcbElementId)
+  }
+
+  /**
+   * Attaches the trace by the endpoint closest to same-net copper. A
+   * bridging point is added when there's a gap between the two.
+   */
+  private tryAttachTrace(trace: PcbTrace): boolean {
+    const wirePoints = trace.route.filter(
+      (point): point is PcbTraceRoutePointWire => point.route_type === "wire",
+    )
+    const firstPoint = wirePoints[0]
+    const lastPoint = wirePoints[wirePoints.length - 1]
+    if (!firstPoint || !lastPoint) return false
+
+    const netName = this.getNetName(trace.pcb_trace_id)
+    const startTarget = this.findAttachTarget(firstPoint, netName)
+    const endTarget = this.findAttachTarget(lastPoint, netName)
+
+    const attachAtStart =
+      startTarget && (!endTarget || startTarget.gap <= endTarget.gap)
+    const target = attachAtStart ? startTarget : endTarget
+    if (!target) return false
+
+    const endpoint = attachAtStart ? firstPoint : lastPoint
+    let attachPoint = endpoint
+    if (target.gap > 0) {
+      attachPoint = {
+        ...endpoint,
+        x: Number(target.point.x.toFixed(4)),
+        y: Number(target.point.y.toFixed(4)),
+        start_pcb_port_id: undefined,
+        end_pcb_port_id: undefined,
+      }
+      if (attachAtStart) {
+        trace.route.unshift(attachPoint)
+      } else {
+        trace.route.push(attachPoint)
+      }
+    }
+
+    if (target.pcbPortId) {
+      if (attachAtStart) {
+        attachPoint.start_pcb_port_id = target.pcbPortId
+      } else {
+        attachPoint.end_pcb_port_id = target.pcbPortId
+      }
+    }
+
+    return true
+  }
+
+  /**
+   * Finds the closest same-net pad, attached trace or attached via on the
+   * layer of the given trace endpoint, if it's within the tolerance
+   */
+  private findAttachTarget(
+    endpoint: PcbTraceRoutePointWire,
+    netName: string | undefined,
+  ): AttachTarget | undefined {
+    if (netName === undefined) return undefined
+
+    const point = new Point(endpoint.x, endpoint.y)
+    const halfWidth = endpoint.width / 2
+    let best: AttachTarget | undefined
+
+    const consider = (target: AttachTarget) => {
+      if (target.gap > this.tolerance) return
+      if (!best || target.gap < best.gap) best = target
+    }
+
+    for (const pad of this.input.pads ?? []) {
+      if (!pad.netNames.includes(netName)) continue
+      if (!pad.layers.includes(endpoint.layer)) continue
+      consider({
+        gap: getPointToPadShapeDistance(point, pad.shape) - halfWidth,
+        point: getPadShapeCenter(pad.shape),
+        pcbPortId: pad.pcbPortId,
+      })
+    }
+
+    for (const trace of this.attachedTraces) {
+      if (this.getNetName(trace.pcb_trace_id) !== netName) continue
+      for (const segment of this.getLayerSegments(trace, endpoint.layer)) {
+        const projection = projectPointOntoPolyline(point, segment.points)
+        consider({
+          gap: projection.distance - halfWidth - segment.width / 2,
+          point: projection.point,
+        })
+      }
+    }
+
+    for (const via of this.attachedVias) {
+      if (this.getNetName(via.pcb_via_id) !== netName) continue
+      if (!via.layers.includes(endpoint.layer)) continue
+      consider({
+        gap:
+          point.distanceTo(new Point(via.x, via.y))[0] -
+          halfWidth -
+          via.outer_diameter / 2,
+        point: { x: via.x, y: via.y },
+      })
+    }
+
+    return best
+  }
+
+  /**
+   * Attaches the via when an attached trace of its net passes through it on
+   * one of its layers, or it sits on a pad of its net sharing a layer with it
+   */
+  private tryAttachVia(via: PcbVia): boolean {
+    const netName = this.getNetName(via.pcb_via_id)
+    if (netName === undefined) return false
+
+    const center = new Point(via.x, via.y)
+    const radius = via.outer_diameter / 2
+
+    for (const trace of this.attachedTraces) {
+      if (this.getNetName(trace.pcb_trace_id) !== netName) continue
+      const touchesVia = this.getLayerSegments(trace).some(
+        (segment) =>
+          via.layers.includes(segment.layer) &&
+          getPointToPolylineDistance(center, segment.points) -
+            radius -
+            segment.width / 2 <=
+            this.tolerance,
+      )
+      if (touchesVia) {
+        via.pcb_trace_id = trace.pcb_trace_id
+        return true
+      }
+    }
+
+    return (this.input.pads ?? []).some(
+      (pad) =>
+        pad.netNames.includes(netName) &&
+        pad.layers.some((layer) => via.layers.includes(layer)) &&
+        getPointToPadShapeDistance(center, pad.shape) - radius <=
+          this.tolerance,
+    )
+  }
+
+  /**
+   * Splits a trace route into runs of wire points on the same layer
+   */
+  private getLayerSegments(
+    trace: PcbTrace,
+    layer?: string,
+  ): Array<{ points: Flatten.Point[]; width: number; layer: LayerRef }> {
+    const segments: Array<{
+      points: Flatten.Point[]
+      width: number
+      layer: LayerRef
+    }> = []
+    for (const point of trace.route) {
+      if (point.route_type !== "wire") continue
+      const current = segments[segments.length - 1]
+      if (current && current.layer === point.layer) {
+        current.points.push(new Point(point.x, point.y))
+        current.width = Math.max(current.width, point.width)
+      } else {
+        segments.push({
+          points: [new Point(point.x, point.y)],
+          width: point.width,
+          layer: point.layer,
+        })
+      }
+    }
+    return layer === undefined
+      ? segments
+      : segments.filter((segment) => segment.layer === layer)
+  }
+
+  private reportHangingFragments(): void {
+    for (const trace of this.hangingTraces) {
+      const netName = this.getNetName(trace.pcb_trace_id)
+      const firstPoint = trace.route[0]
+      this.addTraceError(netName, {
+        type: "pcb_trace_error",
+        pcb_trace_error_id: `pcb_trace_error_${this.traceErrors.length}`,
+        error_type: "pcb_trace_error",
+        message: `Trace ${trace.pcb_trace_id}${netName ? ` on net "${netName}"` : ""} is not connected to any pad`,
+        center: firstPoint && { x: firstPoint.x, y: firstPoint.y },
+        pcb_trace_id: trace.pcb_trace_id,
+        source_trace_id: "",
+        pcb_component_ids: [],
+        pcb_port_ids: [],
+      })
+    }
+
+    for (const via of this.hangingVias) {
+      const netName = this.getNetName(via.pcb_via_id)
+      this.addTraceError(netName, {
+        type: "pcb_trace_error",
+        pcb_trace_error_id: `pcb_trace_error_${this.traceErrors.length}`,
+        error_type: "pcb_trace_error",
+        message: `Via ${via.pcb_via_id}${netName ? ` on net "${netName}"` : ""} is not connected to any pad`,
+        center: { x: via.x, y: via.y },
+        pcb_trace_id: via.pcb_trace_id ?? "",
+        source_trace_id: "",
+        pcb_component_ids: [],
+        pcb_port_ids: [],
+      })
+    }
+  }
+
+  /**
+   * Adds the error, remembering the net of the fragment. Hanging vias aren't
+   * part of any trace, so the net can't be found through pcb_trace_id.
+   */
+  private addTraceError(
+    netName: string | undefined,
+    traceError: PcbTraceError,
+  ): void {
+    this.traceErrors.push(traceError)
+    if (netName !== undefined) {
+      this.netNameByTraceErrorId.set(traceError.pcb_trace_error_id, netName)
+    }
   }
 
   override getOutput() {
     return {
-      attachedTraces: this.input.padAttachedTraces,
-      attachedVias: this.input.padAttachedVias,
+      attachedTraces: this.attachedTraces,
+      attachedVias: this.attachedVias,
+      hangingTraces: this.hangingTraces,
+      hangingVias: this.hangingVias,
+      traceErrors: this.traceErrors,
+      netNameByTraceErrorId: this.netNameByTraceErrorId,
     }
   }
 }
@@ -1,29 +1,60 @@
 import Flatten from "@flatten-js/core"
 import type * as FlattenTypes from "@flatten-js/core"
 import { BaseSolver } from "@tscircuit/solver-utils"
-import type { PcbTrace, PcbVia } from "circuit-json"
 import type {
-  DsnComponent,
-  DsnImage,
-  DsnNet,
-  DsnNetwork,
-  DsnPadstack,
-  DsnPin,
-  DsnPlacement,
-  DsnVia,
-  DsnWire,
-  SesNet,
-  SesWire,
-  SpectraDsn,
-  SpectraSes,
+  LayerRef,
+  PcbTrace,
+  PcbTraceRoutePoint,
+  PcbTraceRoutePointWire,
+  PcbVia,
+} from "circuit-json"
+import {
+  DsnPins,
+  DsnPlace,
+  type DsnComponent,
+  type DsnImage,
+  type DsnNet,
+  type DsnNetwork,
+  type DsnPadstack,
+  type DsnPin,
+  type DsnPlacement,
+  type DsnVia,
+  type DsnWire,
+  type SesNet,
+  type SesVia,
+  type SesWire,
+  type SpectraDsn,
+  type SpectraSes,
 } from "dsnts"
 import { mergeGraphics, type GraphicsObject } from "graphics-debug"
 import { applyToPoint, type Matrix } from "transformation-matrix"
+import {
+  type ConverterDiagnostic,
+  type DsnLayerTable,
+  getDsnLayerTable,
+  getDsnPadstackInfo,
+  getDsnPadstackShapes,
+  getDsnLibraryToMmScale,
+  getDsnToMmScale,
+  getSesPinSwaps,
+  getSesPlacementToMmScale,
+  getUnitToMmScale,
+  getViaLayerRefs,
+  mapDsnLayerToLayerRef,
+} from "../utils"
 import { visualizeSesWires } from "./visualize/visualizeSesWires"
-import { getPadShape, type PadShape } from "./utils/getPadShape"
+import {
+  getPadShape,
+  getPadShapeCenter,
+  type PadShape,
+} from "./utils/getPadShape"
 import {
   doesWirePathIntersectShape,
+  doWirePathsConnect,
   extractPointsFromCoordinates,
+  getPointToPolylineDistance,
+  getPolylineSubpath,
+  projectPointOntoPolyline,
   Point,
   Box,
   Circle,
@@ -35,6 +66,7 @@ export interface SpecificDsnPad {
   image: DsnImage
   padstack: DsnPadstack
   placementComponent: DsnComponent
+  place: DsnPlace
 }
 
 export interface SpecificSesWire {
@@ -42,69 +74,273 @@ export interface SpecificSesWire {
   net: SesNet
   wire: SesWire
   parentWire?: SpecificSesWire
+  /**
+   * The pad this wire was found from, only set on wires touching the pad
+   * where the search started
+   */
+  connectedPad?: SpecificDsnPad
+  /**
+   * The via joining this wire to its parentWire (or to connectedPad when
+   * there's no parentWire), the layer may change at this via
+   */
+  parentVia?: SpecificSesVia
+}
+
+export interface SpecificSesVia {
+  specificSesViaId: string
+  net: SesNet
+  via: SesVia
+}
+
+/**
+ * A wire path found between two pads. Following endWire.parentWire back
+ * until parentWire is undefined gives the wires from endPad to startPad.
+ */
+export interface PadToPadConnection {
+  startPad: SpecificDsnPad
+  endPad: SpecificDsnPad
+  endWire: SpecificSesWire
+}
+
+/**
+ * Wire geometry in real (mm) coordinates
+ */
+interface RealWireGeometry {
+  points: Flatten.Point[]
+  layer: string
+  width: number
+}
+
+/**
+ * Via geometry in real (mm) coordinates
+ */
+interface RealViaGeometry {
+  center: Flatten.Point
+  outerDiameter: number
+  holeDiameter: number
+}
+
+export interface PadTraceConnectorOutput {
+  padAttachedTraces: PcbTrace[]
+  padAttachedVias: PcbVia[]
+  hangingTraces: PcbTrace[]
+  hangingVias: PcbVia[]
+  /**
+   * SES net name of every trace and via, keyed by pcb_trace_id/pcb_via_id
+   */
+  netNameByPcbElementId: Map<string, string>
+  /**
+   * Every pad in real (mm) coordinates with its DSN nets and copper layers,
+   * a pin listed in several nets joins all of them
+   */
+  pads: Array<{
+    pcbPortId: string
+    netNames: string[]
+    layers: LayerRef[]
+    shape: PadShape
+  }>
+  /**
+   * Pads that were skipped because they can't be located, e.g. pins whose
+   * padstack isn't in the library
+   */
+  diagnostics: ConverterDiagnostic[]
 }
 
 export class PadTraceConnectorSolver extends BaseSolver {
+  allPads: Array<SpecificDsnPad> = []
   queuedPads: Array<SpecificDsnPad> = []
 
   unusedWires: Array<SpecificSesWire> = []
 
   usedWires: Array<SpecificSesWire> = []
 
+  unusedVias: Array<SpecificSesVia> = []
+
+  usedVias: Array<SpecificSesVia> = []
+
   currentPad?: SpecificDsnPad
   exploredWires?: SpecificSesWire[]
   currentLeafWires?: Array<SpecificSesWire>
 
+  padToPadConnections: Array<PadToPadConnection> = []
+
+  diagnostics: Array<ConverterDiagnostic> = []
+
+  private realPadShapes = new Map<SpecificDsnPad, PadShape>()
+  private padLayerRefs = new Map<SpecificDsnPad, Set<LayerRef>>()
+  private pinRefToNetNames?: Map<string, Set<string>>
+  private realWireGeometries = new Map<string, RealWireGeometry>()
+  private realViaGeometries = new Map<string, RealViaGeometry>()
+  private output?: PadTraceConnectorOutput
+  private pcbTraceCount = 0
+  private pcbViaCount = 0
+  private layerTable: DsnLayerTable
+  private viaRouteLayers = new Map<
+    SpecificSesVia,
+    { fromLayer: LayerRef; toLayer: LayerRef }
+  >()
+
   constructor(
     private input: {
       dsn: SpectraDsn
       ses: SpectraSes
       dsnToRealTransform: Matrix
       sesToRealTransform: Matrix
+      /**
+       * Maps "componentRef-pinId" to the pcb_port_id used for trace
+       * endpoints, the pin ref itself is used when missing
+       */
+      pinRefToPcbPortId?: Map<string, string>
+      /**
+       * Circuit-json layers of the DSN layers, e.g. with the layerMapping of
+       * the conversion. Defaults to the DSN structure layers.
+       */
+      layerTable?: DsnLayerTable
     },
   ) {
     super()
+    this.layerTable = input.layerTable ?? getDsnLayerTable(input.dsn)
   }
 
   override _setup(): void {
-    const placementComponents = this.input.dsn.placement!.components!
+    const placementComponents = this.input.dsn.placement?.components ?? []
+    const sesPlaceByComponentRef = this.getSesPlaceByComponentRef()
+    const imagePadsByImageId = new Map<
+      string,
+      Array<{ pin: DsnPin; padstack: DsnPadstack }>
+    >()
 
     for (const placementComponent of placementComponents) {
+      const imageId = placementComponent.imageId
       const image = this.input.dsn.library?.images.find(
-        (image) => image.imageId === placementComponent.imageId,
+        (image) => image.imageId === imageId,
       )
 
       if (!image) {
-        throw new Error(
-          `Image not found for placement ${placementComponent.imageId}`,
-        )
+        for (const dsnPlace of placementComponent.places) {
+          this.diagnostics.push({
+            code: "unknown_image",
+            severity: "error",
+            sourcePath: `placement/component ${imageId}/place ${dsnPlace.componentRef}`,
+            token: "place",
+            message: `Component ${dsnPlace.componentRef} uses image "${imageId}", which isn't in the library. Routes aren't connected to it.`,
+          })
+        }
+        continue
       }
 
-      for (const pin of image.pins) {
-        this.queuedPads.push({
-          pin,
-          image,
-          placementComponent,
-          padstack: this.input.dsn.library!.padstacks.find(
-            (ps) => ps.padstackId === pin.padstackId,
-          )!,
-        })
+      let imagePads = imagePadsByImageId.get(image.imageId!)
+      if (!imagePads) {
+        imagePads = this.getImagePads(image)
+        imagePadsByImageId.set(image.imageId!, imagePads)
+      }
+
+      for (const dsnPlace of placementComponent.places) {
+        // The autorouter may have moved the component
+        const place =
+          sesPlaceByComponentRef.get(dsnPlace.componentRef!) ?? dsnPlace
+        for (const { pin, padstack } of imagePads) {
+          this.allPads.push({
+            pin,
+            image,
+            placementComponent,
+            place,
+            padstack,
+          })
+        }
       }
     }
+    this.queuedPads = [...this.allPads]
 
     let wireCount = 0
-    for (const net of this.input.ses.routes!.networkOut!.nets) {
+    let viaCount = 0
+    for (const net of this.input.ses.routes?.networkOut?.nets ?? []) {
       for (const wire of net.wires) {
         this.unusedWires.push({
           specificSesWireId: `wire${wireCount++}`,
           net,
           wire,
+        })
+      }
+      for (const via of net.vias) {
+        this.unusedVias.push({
+          specificSesViaId: `via${viaCount++}`,
+          net,
+          via,
+        })
+      }
+    }
+  }
+
+  /**
+   * Returns the pins of the image with their padstack. Pins whose padstack
+   * is missing or has no shape can't be located, they are skipped and
+   * reported.
+   */
+  private getImagePads(
+    image: DsnImage,
+  ): Array<{ pin: DsnPin; padstack: DsnPadstack }> {
+    const imagePads: Array<{ pin: DsnPin; padstack: DsnPadstack }> = []
+
+    for (const pin of image.pins) {
+      const padstack = this.input.dsn.library?.padstacks.find(
+        (padstack) => padstack.padstackId === pin.padstackId,
+      )
+
+      if (!padstack) {
+        this.diagnostics.push({
+          code: "unknown_padstack",
+          severity: "error",
+          sourcePath: `library/image ${image.imageId}/pin ${pin.pinId}`,
+          token: "pin",
+          message: `Pin ${pin.pinId} of image "${image.imageId}" uses padstack "${pin.padstackId}", which isn't in the library. Routes aren't connected to it.`,
+        })
+        continue
+      }
 
-          // store all vias that this wire is connected to
-          // vias: this.getViasConnectedToWire(net, wire)
+      if (getDsnPadstackShapes(padstack).length === 0) {
+        this.diagnostics.push({
+          code: "padstack_without_shape",
+          severity: "warning",
+          sourcePath: `library/image ${image.imageId}/pin ${pin.pinId}`,
+          token: "pin",
+          message: `Pin ${pin.pinId} of image "${image.imageId}" uses padstack "${pin.padstackId}", which has no shape. Routes aren't connected to it.`,
         })
+        continue
+      }
+
+      imagePads.push({ pin, padstack })
+    }
+
+    return imagePads
+  }
+
+  /**
+   * Returns the SES placement of every component it lists, converted to DSN
+   * units so pads can be located the same way as with the DSN placement
+   */
+  private getSesPlaceByComponentRef(): Map<string, DsnPlace> {
+    const sesPlaceByComponentRef = new Map<string, DsnPlace>()
+    const sesToDsnScale =
+      getSesPlacementToMmScale(this.input.ses) / getDsnToMmScale(this.input.dsn)
+
+    for (const component of this.input.ses.placement?.components ?? []) {
+      for (const place of component.places) {
+        if (!place.componentRef) continue
+        sesPlaceByComponentRef.set(
+          place.componentRef,
+          new DsnPlace({
+            componentRef: place.componentRef,
+            x: (place.x ?? 0) * sesToDsnScale,
+            y: (place.y ?? 0) * sesToDsnScale,
+            side: place.side,
+            rotation: place.rotation,
+          }),
+        )
       }
     }
+
+    return sesPlaceByComponentRef
   }
 
   override _step(): void {
@@ -130,13 +366,31 @@ export class PadTraceConnectorSolver extends BaseSolver {
     // 1. We reached the end of all the wires, there's no more leaves to explore
     // 2. We hit another pad! Yay we figured out this trace
 
-    // Check if any leaf is connected to another pad
+    this.exploredWires!.push(...this.currentLeafWires!)
+
+    // Check if any leaf is connected to another pad, leaves that reached
+    // another pad complete a trace and are not explored further
+    const leavesToExpand: SpecificSesWire[] = []
     for (const leaf of this.currentLeafWires!) {
-      // TODO: Check if leaf is connected to another pad
+      const reachedPads = this.getPadsConnectedToWire(leaf).filter(
+        (pad) => pad !== this.currentPad,
+      )
+
+      for (const endPad of reachedPads) {
+        this.padToPadConnections.push({
+          startPad: this.currentPad,
+          endPad,
+          endWire: leaf,
+        })
+      }
+
+      if (reachedPads.length === 0) {
+        leavesToExpand.push(leaf)
+      }
     }
 
     const nextLeaves: SpecificSesWire[] = []
-    for (const leaf of this.currentLeafWires!) {
+    for (const leaf of leavesToExpand) {
       // Find any other wires this leaf is connected to
       const otherWires = this.getUnusedWiresConnectedToWire(leaf)
       nextLeaves.push(...otherWires)
@@ -154,44 +408,28 @@ export class PadTraceConnectorSolver extends BaseSolver {
    * 2. Transforms the shape to real (mm) coordinates
    * 3. Iterates through all unused wires
    * 4. Extracts and transforms wire points to real (mm) coordinates
-   * 5. Checks if the wire path intersects with the actual pad shape
+   * 5. Checks if the wire is on the pad's net and on one of its layers, and
+   *    if its copper intersects with the actual pad shape
    * 6. Returns matching wires (and marks them as used)
    *
    * Note: DSN and SES use different coordinate scales, so we convert both
    * to real (mm) coordinates before comparison.
    */
   getWiresConnectedToPad(pad: SpecificDsnPad): Array<SpecificSesWire> {
-    const dsnPadShape = getPadShape(pad)
-    const dsnToReal = this.input.dsnToRealTransform
-
-    // Transform pad shape from DSN coordinates to real (mm) coordinates
-    const realPadShape = this.transformPadShape(dsnPadShape, dsnToReal)
+    const realPadShape = this.getRealPadShape(pad)
 
     const connectedWires: SpecificSesWire[] = []
     const stillUnusedWires: SpecificSesWire[] = []
-    const sesToReal = this.input.sesToRealTransform
 
     for (const specificWire of this.unusedWires) {
-      const wirePath = specificWire.wire.path
-      if (!wirePath) {
+      const geometry = this.getRealWireGeometry(specificWire)
+      if (!geometry) {
         stillUnusedWires.push(specificWire)
         continue
       }
 
-      const coordinates = wirePath.coordinates ?? []
-      if (coordinates.length < 2) {
-        stillUnusedWires.push(specificWire)
-        continue
-      }
-
-      // Extract wire points and transform to real (mm) coordinates
-      const sesWirePoints = extractPointsFromCoordinates(coordinates)
-      const realWirePoints = sesWirePoints.map((p) => {
-        const transformed = applyToPoint(sesToReal, { x: p.x, y: p.y })
-        return new Point(transformed.x, transformed.y)
-      })
-
-      if (doesWirePathIntersectShape(realWirePoints, realPadShape)) {
+      if (this.isWireConnectedToPad(specificWire, geometry, pad)) {
+        specificWire.connectedPad = pad
         connectedWires.push(specificWire)
         this.usedWires.push(specificWire)
       } else {
@@ -200,9 +438,152 @@ export class PadTraceConnectorSolver extends BaseSolver {
     }
 
     this.unusedWires = stillUnusedWires
+
+    // Wires can also reach the pad via a via of its net placed inside the
+    // pad, the via must reach one of the pad's layers
+    const padLayerRefs = this.getPadLayerRefs(pad)
+    const padNetNames = this.getPadNetNames(pad)
+    for (const via of this.takeUnusedVias(
+      (via) =>
+        via.net.netName !== undefined &&
+        padNetNames.has(via.net.netName) &&
+        this.getViaLayerRefs(via).some((layer) => padLayerRefs.has(layer)) &&
+        doesWirePathIntersectShape(
+          [this.getRealViaGeometry(via).center],
+          realPadShape,
+        ),
+    )) {
+      for (const wire of this.getUnusedWiresConnectedToVia(via)) {
+        wire.connectedPad = pad
+        wire.parentVia = via
+        connectedWires.push(wire)
+      }
+    }
+
     return connectedWires
   }
 
+  /**
+   * Finds all pads (used or not) of the wire's net whose shape is touched by
+   * the wire on one of the pad's layers
+   */
+  getPadsConnectedToWire(wire: SpecificSesWire): Array<SpecificDsnPad> {
+    const geometry = this.getRealWireGeometry(wire)
+    if (!geometry) return []
+
+    return this.allPads.filter((pad) =>
+      this.isWireConnectedToPad(wire, geometry, pad),
+    )
+  }
+
+  /**
+   * A wire connects to a pad when both are on the same net, the wire is on
+   * a layer the pad has copper on and the wire's copper (the path grown by
+   * half the wire width) touches the pad shape
+   */
+  private isWireConnectedToPad(
+    wire: SpecificSesWire,
+    geometry: RealWireGeometry,
+    pad: SpecificDsnPad,
+  ): boolean {
+    return (
+      wire.net.netName !== undefined &&
+      this.getPadNetNames(pad).has(wire.net.netName) &&
+      this.getPadLayerRefs(pad).has(this.mapLayer(geometry.layer)) &&
+      doesWirePathIntersectShape(
+        geometry.points,
+        this.getRealPadShape(pad),
+        geometry.width / 2,
+      )
+    )
+  }
+
+  /**
+   * Returns the DSN nets of the pad, after the SES pin swaps
+   */
+  private getPadNetNames(pad: SpecificDsnPad): ReadonlySet<string> {
+    this.pinRefToNetNames ??= this.getPinRefToNetNames()
+    return this.pinRefToNetNames.get(this.getPinRef(pad)) ?? new Set()
+  }
+
+  /**
+   * Returns the layers the pad has copper on, cached per pad. Through-hole
+   * pads are on every layer, the pads of back side components are mirrored
+   * to the other outer layer.
+   */
+  private getPadLayerRefs(pad: SpecificDsnPad): Set<LayerRef> {
+    let layerRefs = this.padLayerRefs.get(pad)
+    if (!layerRefs) {
+      const { shapes, isThroughHole } = getDsnPadstackInfo(
+        pad.padstack,
+        this.layerTable,
+      )
+      const isBackSide = pad.place.side === "back"
+      layerRefs = new Set(
+        isThroughHole
+          ? this.layerTable.layerRefs
+          : shapes.map((shape) => {
+              const layer = this.mapLayer(shape.layer)
+              if (!isBackSide) return layer
+              if (layer === "top") return "bottom"
+              if (layer === "bottom") return "top"
+              return layer
+            }),
+      )
+      this.padLayerRefs.set(pad, layerRefs)
+    }
+    return layerRefs
+  }
+
+  /**
+   * Returns the pad shape in real (mm) coordinates, cached per pad
+   */
+  getRealPadShape(pad: SpecificDsnPad): PadShape {
+    let realPadShape = this.realPadShapes.get(pad)
+    if (!realPadShape) {
+      realPadShape = this.transformPadShape(
+        getPadShape(
+          pad,
+          getDsnLibraryToMmScale(this.input.dsn) /
+            getDsnToMmScale(this.input.dsn),
+        ),
+        this.input.dsnToRealTransform,
+      )
+      this.realPadShapes.set(pad, realPadShape)
+    }
+    return realPadShape
+  }
+
+  /**
+   * Returns the wire path, layer and width in real (mm) coordinates, cached
+   * per wire. Returns undefined for wires without a usable path.
+   *
+   * Note: DSN and SES use different coordinate scales, so we convert both
+   * to real (mm) coordinates before comparison.
+   */
+  getRealWireGeometry(wire: SpecificSesWire): RealWireGeometry | undefined {
+    const cached = this.realWireGeometries.get(wire.specificSesWireId)
+    if (cached) return cached
+
+    const wirePath = wire.wire.path
+    const coordinates = wirePath?.coordinates ?? []
+    if (!wirePath || coordinates.length < 2) return undefined
+
+    const sesToReal = this.input.sesToRealTransform
+    const points = extractPointsFromCoordinates(coordinates).map((p) => {
+      const transformed = applyToPoint(sesToReal, { x: p.x, y: p.y })
+      return new Point(transformed.x, transformed.y)
+    })
+
+    const geometry: RealWireGeometry = {
+      points,
+      layer: String(wirePath.layer ?? ""),
+      width: (wirePath.width ?? 0) * Math.abs(sesToReal.a),
+    }
+    this.realWireGeometries.set(wire.specificSesWireId, geometry)
+    return geometry
+  }
+
   /**
    * Transforms a pad shape from DSN coordinates to real (mm) coordinates.
    */
@@ -269,18 +650,526 @@ export class PadTraceConnectorSolver extends BaseSolver {
     }
   }
 
+  /**
+   * Finds all unused wires of the same net that connect to the given wire,
+   * either on the same layer (endpoint-to-endpoint or endpoint-on-segment)
+   * or on any layer through a via touching the wire. Returned wires are
+   * marked as used and have their parentWire (and parentVia) set.
+   */
   getUnusedWiresConnectedToWire(wire: SpecificSesWire): Array<SpecificSesWire> {
-    // TODO: Implement wire-to-wire connection logic
-    return []
+    const geometry = this.getRealWireGeometry(wire)
+    if (!geometry) return []
+
+    const connectedWires: SpecificSesWire[] = []
+    const stillUnusedWires: SpecificSesWire[] = []
+
+    for (const candidate of this.unusedWires) {
+      const candidateGeometry =
+        candidate.net === wire.net
+          ? this.getRealWireGeometry(candidate)
+          : undefined
+
+      if (
+        candidateGeometry &&
+        candidateGeometry.layer === geometry.layer &&
+        doWirePathsConnect(
+          geometry.points,
+          geometry.width,
+          candidateGeometry.points,
+          candidateGeometry.width,
+        )
+      ) {
+        candidate.parentWire = wire
+        connectedWires.push(candidate)
+        this.usedWires.push(candidate)
+      } else {
+        stillUnusedWires.push(candidate)
+      }
+    }
+
+    this.unusedWires = stillUnusedWires
+
+    // Vias touching this wire link it to wires of the same net on any layer
+    for (const via of this.takeUnusedVias(
+      (via) => via.net === wire.net && this.isWireConnectedToVia(geometry, via),
+    )) {
+      for (const viaWire of this.getUnusedWiresConnectedToVia(via)) {
+        viaWire.parentWire = wire
+        viaWire.parentVia = via
+        connectedWires.push(viaWire)
+      }
+    }
+
+    return connectedWires
+  }
+
+  /**
+   * Finds all unused wires of the via's net, on any layer, that touch the
+   * via. Returned wires are marked as used.
+   */
+  getUnusedWiresConnectedToVia(via: SpecificSesVia): Array<SpecificSesWire> {
+    const connectedWires: SpecificSesWire[] = []
+    const stillUnusedWires: SpecificSesWire[] = []
+
+    for (const candidate of this.unusedWires) {
+      const candidateGeometry =
+        candidate.net === via.net
+          ? this.getRealWireGeometry(candidate)
+          : undefined
+
+      if (
+        candidateGeometry &&
+        this.isWireConnectedToVia(candidateGeometry, via)
+      ) {
+        connectedWires.push(candidate)
+        this.usedWires.push(candidate)
+      } else {
+        stillUnusedWires.push(candidate)
+      }
+    }
+
+    this.unusedWires = stillUnusedWires
+    return connectedWires
+  }
+
+  /**
+   * Removes the unused vias matching the predicate, marks them as used and
+   * returns them
+   */
+  private takeUnusedVias(
+    predicate: (via: SpecificSesVia) => boolean,
+  ): SpecificSesVia[] {
+    const takenVias: SpecificSesVia[] = []
+    const stillUnusedVias: SpecificSesVia[] = []
+    for (const via of this.unusedVias) {
+      if (predicate(via)) {
+        takenVias.push(via)
+        this.usedVias.push(via)
+      } else {
+        stillUnusedVias.push(via)
+      }
+    }
+    this.unusedVias = stillUnusedVias
+    return takenVias
+  }
+
+  /**
+   * A wire touches a via when its path passes within the via's copper
+   */
+  private isWireConnectedToVia(
+    geometry: RealWireGeometry,
+    via: SpecificSesVia,
+  ): boolean {
+    const { center, outerDiameter } = this.getRealViaGeometry(via)
+    return (
+      getPointToPolylineDistance(center, geometry.points) <= outerDiameter / 2
+    )
+  }
+
+  override getOutput(): PadTraceConnectorOutput {
+    if (this.output) return this.output
+
+    const output: PadTraceConnectorOutput = {
+      padAttachedTraces: [],
+      padAttachedVias: [],
+      hangingTraces: [],
+      hangingVias: [],
+      netNameByPcbElementId: new Map(),
+      pads: [],
+      diagnostics: this.diagnostics,
+    }
+    const emittedWires = new Set<SpecificSesWire>()
+    const viaTraceIds = new Map<SpecificSesVia, string>()
+
+    /**
+     * Adds a trace through the given wires. It starts at the emitted wire it
+     * branches from, or at the pad the first wire was found from.
+     */
+    const addTrace = (
+      traces: PcbTrace[],
+      wires: SpecificSesWire[],
+      endPad?: SpecificDsnPad,
+    ) => {
+      const firstWire = wires[0]!
+      const branchWire =
+        firstWire.parentWire && emittedWires.has(firstWire.parentWire)
+          ? firstWire.parentWire
+          : undefined
+      const startPad = branchWire ? undefined : firstWire.connectedPad
+
+      const route = this.createTraceRoute(wires, {
+        startPoint: branchWire
+          ? this.getWireJunction(branchWire, firstWire)
+          : startPad && getPadShapeCenter(this.getRealPadShape(startPad)),
+        startLayer:
+          branchWire &&
+          this.mapLayer(this.getRealWireGeometry(branchWire)!.layer),
+        endPoint: endPad && getPadShapeCenter(this.getRealPadShape(endPad)),
+      })
+      const firstPoint = route[0]
+      const lastPoint = route[route.length - 1]
+      if (startPad && firstPoint?.route_type === "wire") {
+        firstPoint.start_pcb_port_id = this.getPcbPortId(startPad)
+      }
+      if (endPad && lastPoint?.route_type === "wire") {
+        lastPoint.end_pcb_port_id = this.getPcbPortId(endPad)
+      }
+
+      const trace: PcbTrace = {
+        type: "pcb_trace",
+        pcb_trace_id: `pcb_trace_${this.pcbTraceCount++}`,
+        route,
+        trace_length: this.getRouteLength(route),
+      }
+
+      for (const wire of wires) {
+        emittedWires.add(wire)
+        if (wire.parentVia && !viaTraceIds.has(wire.parentVia)) {
+          viaTraceIds.set(wire.parentVia, trace.pcb_trace_id)
+        }
+      }
+      traces.push(trace)
+      output.netNameByPcbElementId.set(
+        trace.pcb_trace_id,
+        firstWire.net.netName ?? "",
+      )
+    }
+
+    // Traces between two pads, branches stop at already emitted wires
+    for (const connection of this.padToPadConnections) {
+      const wires = this.getWireChain(connection.endWire, emittedWires)
+      if (wires.length === 0) continue
+      addTrace(output.padAttachedTraces, wires, connection.endPad)
+    }
+
+    // Wires reachable from a pad that don't lead to another pad (stubs)
+    const remainingUsedWires = this.usedWires.filter(
+      (wire) => !emittedWires.has(wire),
+    )
+    const parentWires = new Set(
+      remainingUsedWires.map((wire) => wire.parentWire),
+    )
+    for (const leafWire of remainingUsedWires) {
+      if (parentWires.has(leafWire)) continue
+      const wires = this.getWireChain(leafWire, emittedWires)
+      if (wires.length === 0) continue
+      addTrace(output.padAttachedTraces, wires)
+    }
+
+    // Wires that couldn't be reached from any pad
+    for (const wire of this.unusedWires) {
+      if (!this.getRealWireGeometry(wire)) continue
+      addTrace(output.hangingTraces, [wire])
+    }
+
+    // Vias reached from a pad are attached to the first trace through them
+    for (const specificVia of this.usedVias) {
+      const via = this.createPcbVia(specificVia)
+      via.pcb_trace_id = viaTraceIds.get(specificVia)
+      const routeLayers = this.viaRouteLayers.get(specificVia)
+      if (routeLayers) {
+        via.from_layer = routeLayers.fromLayer
+        via.to_layer = routeLayers.toLayer
+      }
+      output.padAttachedVias.push(via)
+      output.netNameByPcbElementId.set(
+        via.pcb_via_id,
+        specificVia.net.netName ?? "",
+      )
+    }
+
+    for (const specificVia of this.unusedVias) {
+      const via = this.createPcbVia(specificVia)
+      output.hangingVias.push(via)
+      output.netNameByPcbElementId.set(
+        via.pcb_via_id,
+        specificVia.net.netName ?? "",
+      )
+    }
+
+    for (const pad of this.allPads) {
+      output.pads.push({
+        pcbPortId: this.getPcbPortId(pad),
+        netNames: [...this.getPadNetNames(pad)],
+        layers: [...this.getPadLayerRefs(pad)],
+        shape: this.getRealPadShape(pad),
+      })
+    }
+
+    this.output = output
+    return output
+  }
+
+  /**
+   * Maps "componentRef-pinId" to the DSN nets the pin belongs to, after the
+   * pin swaps recorded in the SES was_is section
+   */
+  private getPinRefToNetNames(): Map<string, Set<string>> {
+    const pinRefToNetNames = new Map<string, Set<string>>()
+    const pinSwaps = getSesPinSwaps(this.input.ses)
+    for (const net of this.input.dsn.network?.nets ?? []) {
+      if (!net.netName) continue
+      // Pins can be directly on the net or in a (pins ...) child
+      const pinRefs = [
+        ...net.pins,
+        ...net.otherChildren.flatMap((child) =>
+          child instanceof DsnPins ? child.pinRefs : [],
+        ),
+      ]
+      for (const pinRef of pinRefs) {
+        const swappedPinRef = pinSwaps.get(pinRef) ?? pinRef
+        let netNames = pinRefToNetNames.get(swappedPinRef)
+        if (!netNames) {
+          netNames = new Set()
+          pinRefToNetNames.set(swappedPinRef, netNames)
+        }
+        netNames.add(net.netName)
+      }
+    }
+    return pinRefToNetNames
+  }
+
+  /**
+   * Returns the wires from the first not-yet-emitted ancestor of the given
+   * wire down to the wire itself
+   */
+  private getWireChain(
+    wire: SpecificSesWire,
+    emittedWires: Set<SpecificSesWire>,
+  ): SpecificSesWire[] {
+    const wires: SpecificSesWire[] = []
+    let currentWire: SpecificSesWire | undefined = wire
+    while (currentWire && !emittedWires.has(currentWire)) {
+      wires.unshift(currentWire)
+      currentWire = currentWire.parentWire
+    }
+    return wires
+  }
+
+  /**
+   * Finds where a wire meets its parent wire, i.e. the via joining them or
+   * the endpoint of one wire that lies on (or closest to) the other wire
+   */
+  private getWireJunction(
+    wireA: SpecificSesWire,
+    wireB: SpecificSesWire,
+  ): Flatten.Point {
+    if (wireB.parentVia) {
+      return this.getRealViaGeometry(wireB.parentVia).center
+    }
+
+    const pathA = this.getRealWireGeometry(wireA)!.points
+    const pathB = this.getRealWireGeometry(wireB)!.points
+
+    const candidates = [
+      { endpoint: pathA[0]!, otherPath: pathB },
+      { endpoint: pathA[pathA.length - 1]!, otherPath: pathB },
+      { endpoint: pathB[0]!, otherPath: pathA },
+      { endpoint: pathB[pathB.length - 1]!, otherPath: pathA },
+    ]
+
+    let junction = candidates[0]!.endpoint
+    let minDistance = Number.POSITIVE_INFINITY
+    for (const { endpoint, otherPath } of candidates) {
+      const distance = getPointToPolylineDistance(endpoint, otherPath)
+      if (distance < minDistance) {
+        minDistance = distance
+        junction = endpoint
+      }
+    }
+    return junction
+  }
+
+  /**
+   * Creates a continuous route through connected wires. Each wire is cut
+   * to the part between where it's entered and where it's left, so wires
+   * joined at a T don't produce copper that doesn't exist. A via point is
+   * inserted wherever a wire is entered through a via.
+   */
+  private createTraceRoute(
+    wires: SpecificSesWire[],
+    endpoints: {
+      startPoint?: Flatten.Point
+      startLayer?: LayerRef
+      endPoint?: Flatten.Point
+    },
+  ): PcbTraceRoutePoint[] {
+    const route: PcbTraceRoutePoint[] = []
+    let previousLayer = endpoints.startLayer
+
+    for (let i = 0; i < wires.length; i++) {
+      const wire = wires[i]!
+      const { points, layer, width } = this.getRealWireGeometry(wire)!
+      const layerRef = this.mapLayer(layer)
+      const lastT = points.length - 1
+
+      if (wire.parentVia && previousLayer) {
+        const { center, outerDiameter, holeDiameter } = this.getRealViaGeometry(
+          wire.parentVia,
+        )
+        route.push({
+          route_type: "via",
+          x: Number(center.x.toFixed(4)),
+          y: Number(center.y.toFixed(4)),
+          outer_diameter: outerDiameter,
+          hole_diameter: holeDiameter,
+          from_layer: previousLayer,
+          to_layer: layerRef,
+        })
+        if (!this.viaRouteLayers.has(wire.parentVia)) {
+          this.viaRouteLayers.set(wire.parentVia, {
+            fromLayer: previousLayer,
+            toLayer: layerRef,
+          })
+        }
+      }
+      previousLayer = layerRef
+
+      const entryPoint =
+        i === 0
+          ? endpoints.startPoint
+          : this.getWireJunction(wires[i - 1]!, wire)
+      const exitPoint =
+        i === wires.length - 1
+          ? endpoints.endPoint
+          : this.getWireJunction(wire, wires[i + 1]!)
+
+      const fromT = entryPoint
+        ? projectPointOntoPolyline(entryPoint, points).t
+        : 0
+      // Without an exit point, follow the wire to its far end
+      const toT = exitPoint
+        ? projectPointOntoPolyline(exitPoint, points).t
+        : fromT <= lastT / 2
+          ? lastT
+          : 0
+
+      for (const point of getPolylineSubpath(points, fromT, toT)) {
+        const routePoint: PcbTraceRoutePointWire = {
+          route_type: "wire",
+          x: Number(point.x.toFixed(4)),
+          y: Number(point.y.toFixed(4)),
+          width,
+          layer: layerRef,
+        }
+        const previous = route[route.length - 1]
+        if (
+          previous?.route_type === "wire" &&
+          previous.x === routePoint.x &&
+          previous.y === routePoint.y &&
+          previous.layer === routePoint.layer
+        ) {
+          continue
+        }
+        route.push(routePoint)
+      }
+    }
+
+    return route
   }
 
-  override getOutput() {
-    // TODO: Return actual traced results
+  private getRouteLength(route: PcbTrace["route"]): number {
+    let length = 0
+    for (let i = 0; i < route.length - 1; i++) {
+      length += Math.hypot(
+        route[i + 1]!.x - route[i]!.x,
+        route[i + 1]!.y - route[i]!.y,
+      )
+    }
+    return Number(length.toFixed(4))
+  }
+
+  private getPinRef(pad: SpecificDsnPad): string {
+    return `${pad.place.componentRef}-${pad.pin.pinId}`
+  }
+
+  private getPcbPortId(pad: SpecificDsnPad): string {
+    const pinRef = this.getPinRef(pad)
+    return this.input.pinRefToPcbPortId?.get(pinRef) ?? pinRef
+  }
+
+  /**
+   * Returns the via center and diameters in real (mm) coordinates, cached per
+   * via. The outer diameter comes from the library_out padstack, the hole
+   * diameter from a padstack name like "Via[0-1]_600:300_um" (defaults to
+   * half the outer diameter)
+   */
+  getRealViaGeometry(via: SpecificSesVia): RealViaGeometry {
+    const cached = this.realViaGeometries.get(via.specificSesViaId)
+    if (cached) return cached
+
+    const sesToReal = this.input.sesToRealTransform
+    const { padstackId } = via.via
+    const center = applyToPoint(sesToReal, {
+      x: via.via.x ?? 0,
+      y: via.via.y ?? 0,
+    })
+
+    const padstack = this.getSesViaPadstack(via)
+    let sesDiameter: number | undefined
+    for (const shape of padstack?.shapes ?? []) {
+      for (const child of shape.otherChildren ?? []) {
+        if (child.token === "circle" || child.token === "circ") {
+          sesDiameter = Math.max(sesDiameter ?? 0, (child as any).diameter ?? 0)
+        }
+      }
+    }
+
+    const nameMatch = padstackId?.match(/(\d+):(\d+)(?:_([a-z]+))?/i)
+    const nameUnitToMm = getUnitToMmScale(nameMatch?.[3])
+    const outerDiameter = sesDiameter
+      ? sesDiameter * Math.abs(sesToReal.a)
+      : nameMatch
+        ? Number(nameMatch[1]) * nameUnitToMm
+        : 0.6
+    const holeDiameter = nameMatch
+      ? Number(nameMatch[2]) * nameUnitToMm
+      : outerDiameter / 2
+
+    const geometry: RealViaGeometry = {
+      center: new Point(center.x, center.y),
+      outerDiameter: Number(outerDiameter.toFixed(4)),
+      holeDiameter: Number(holeDiameter.toFixed(4)),
+    }
+    this.realViaGeometries.set(via.specificSesViaId, geometry)
+    return geometry
+  }
+
+  private getSesViaPadstack(via: SpecificSesVia) {
+    return this.input.ses.routes?.libraryOut?.padstacks.find(
+      (ps) => ps.padstackId === via.via.padstackId,
+    )
+  }
+
+  /**
+   * Maps an SES layer name or 1-based layer number to a circuit-json layer
+   */
+  private mapLayer(layer: string | number | undefined): LayerRef {
+    return mapDsnLayerToLayerRef(layer, this.layerTable)
+  }
+
+  /**
+   * Returns the layers the via spans, in stackup order
+   */
+  private getViaLayerRefs(via: SpecificSesVia): LayerRef[] {
+    const shapeLayers = (this.getSesViaPadstack(via)?.shapes ?? []).flatMap(
+      (shape) =>
+        (shape.otherChildren ?? []).map((child) => (child as any).layer),
+    )
+    return getViaLayerRefs(via.via.padstackId, shapeLayers, this.layerTable)
+  }
+
+  private createPcbVia(via: SpecificSesVia): PcbVia {
+    const { center, outerDiameter, holeDiameter } = this.getRealViaGeometry(via)
+
     return {
-      padAttachedTraces: [] as any[],
-      padAttachedVias: [] as any[],
-      hangingTraces: [] as any[],
-      hangingVias: [] as any[],
+      type: "pcb_via",
+      pcb_via_id: `pcb_via_${this.pcbViaCount++}`,
+      x: Number(center.x.toFixed(4)),
+      y: Number(center.y.toFixed(4)),
+      outer_diameter: outerDiameter,
+      hole_diameter: holeDiameter,
+      layers: this.getViaLayerRefs(via),
     }
   }
 
@@ -293,15 +1182,8 @@ export class PadTraceConnectorSolver extends BaseSolver {
     }
 
     // Visualize all pad shapes for debugging
-    const dsnToReal = this.input.dsnToRealTransform
-    const allPads = [
-      ...this.queuedPads,
-      ...(this.currentPad ? [this.currentPad] : []),
-    ]
-
-    for (const pad of allPads) {
-      const dsnPadShape = getPadShape(pad)
-      const realPadShape = this.transformPadShape(dsnPadShape, dsnToReal)
+    for (const pad of this.allPads) {
+      const realPadShape = this.getRealPadShape(pad)
 
       switch (realPadShape.type) {
         case "circle": {
@@ -3,17 +3,40 @@ import {
   definePipelineStep,
   type PipelineStep,
 } from "@tscircuit/solver-utils"
+import type { PcbTrace, PcbTraceError, PcbVia } from "circuit-json"
 import type { DsnVia, SpectraDsn, SpectraSes, Wire } from "dsnts"
 import { mergeGraphics, type GraphicsObject } from "graphics-debug"
 import { PadTraceConnectorSolver } from "./PadTraceConnectorSolver"
 import { HangingTraceSolver } from "./HangingTraceSolver"
 import type { SesConverterContext } from "../ses-to-circuit-json/types"
 import { visualizeSpecctraDsn } from "./visualize/visualizeSpecctraDsn"
-import { compose, scale, translate, type Matrix } from "transformation-matrix"
+import { scale, type Matrix } from "transformation-matrix"
+import {
+  getDsnToMmScale,
+  getSesToMmScale,
+  type ConverterDiagnostic,
+  type DsnLayerTable,
+} from "../utils"
 
 export interface PcbStitchInputProblem {
   ses: SpectraSes
   dsn: SpectraDsn
+  /**
+   * Overrides for the transforms to "real" coordinates, e.g. to output
+   * traces in the frame of DSN-converted circuit JSON. Both default to a
+   * plain scale to mm derived from the file resolutions.
+   */
+  dsnToRealTransform?: Matrix
+  sesToRealTransform?: Matrix
+  /**
+   * Maps "componentRef-pinId" to the pcb_port_id used for trace endpoints
+   */
+  pinRefToPcbPortId?: Map<string, string>
+  /**
+   * Circuit-json layers of the DSN layers, defaults to the DSN structure
+   * layers without layerMapping
+   */
+  layerTable?: DsnLayerTable
 }
 
 type AggregatedTraceId = string
@@ -56,24 +79,30 @@ export class PcbStitchPipelineSolver extends BasePipelineSolver<PcbStitchInputPr
       return
     }
 
-    this.dsnToRealTransform = this.createDsnToRealTransform()
-    this.sesToRealTransform = this.createSesToRealTransform()
+    this.dsnToRealTransform =
+      this.inputProblem.dsnToRealTransform ?? this.createDsnToRealTransform()
+    this.sesToRealTransform =
+      this.inputProblem.sesToRealTransform ?? this.createSesToRealTransform()
   }
 
+  /**
+   * DSN coordinates are expressed in the DSN unit, e.g. (resolution um 10)
+   * means 1 DSN unit = 1μm
+   */
   private createDsnToRealTransform(): Matrix {
-    // TODO: parse the resolution unit and value
-    const dsn = this.inputProblem.dsn.resolution
-    const DSN_TO_MM_SCALE = 1 / 1000 // um to mm
+    const dsnToMmScale = getDsnToMmScale(this.inputProblem.dsn)
 
-    return compose(scale(DSN_TO_MM_SCALE, DSN_TO_MM_SCALE))
+    return scale(dsnToMmScale, dsnToMmScale)
   }
 
+  /**
+   * SES coordinates are counted in resolution steps, e.g. (resolution um 10)
+   * means 1 SES unit = 0.1μm
+   */
   private createSesToRealTransform(): Matrix {
-    // TODO: parse the resolution unit and value
-    const ses = this.inputProblem.ses
-    const SES_TO_MM_SCALE = 1 / 10000 // um to mm
+    const sesToMmScale = getSesToMmScale(this.inputProblem.ses)
 
-    return scale(SES_TO_MM_SCALE, SES_TO_MM_SCALE)
+    return scale(sesToMmScale, sesToMmScale)
   }
 
   override pipelineDef: PipelineStep<any>[] = [
@@ -86,6 +115,8 @@ export class PcbStitchPipelineSolver extends BasePipelineSolver<PcbStitchInputPr
           ses: psp.inputProblem.ses,
           dsnToRealTransform: psp.dsnToRealTransform,
           sesToRealTransform: psp.sesToRealTransform,
+          pinRefToPcbPortId: psp.inputProblem.pinRefToPcbPortId,
+          layerTable: psp.inputProblem.layerTable,
         },
       ],
     ),
@@ -98,6 +129,8 @@ export class PcbStitchPipelineSolver extends BasePipelineSolver<PcbStitchInputPr
           padAttachedVias,
           hangingTraces,
           hangingVias,
+          netNameByPcbElementId,
+          pads,
         } = psp.padTraceConnector!.getOutput()
 
         return [
@@ -106,12 +139,51 @@ export class PcbStitchPipelineSolver extends BasePipelineSolver<PcbStitchInputPr
             hangingVias: hangingVias,
             padAttachedTraces: padAttachedTraces,
             padAttachedVias: padAttachedVias,
+            netNameByPcbElementId,
+            pads,
           },
         ]
       },
     ),
   ]
 
+  /**
+   * Returns the stitched traces and vias in real (mm) coordinates. Fragments
+   * that couldn't be attached to a pad are included and reported in
+   * traceErrors. netNameByPcbElementId maps every trace, via and trace error
+   * id to the name of its SES net. diagnostics lists the pads routes
+   * couldn't be connected to.
+   */
+  override getOutput(): {
+    traces: PcbTrace[]
+    vias: PcbVia[]
+    traceErrors: PcbTraceError[]
+    netNameByPcbElementId: Map<string, string>
+    diagnostics: ConverterDiagnostic[]
+  } {
+    const output = this.hangingTrace?.getOutput()
+    if (!output) {
+      return {
+        traces: [],
+        vias: [],
+        traceErrors: [],
+        netNameByPcbElementId: new Map(),
+        diagnostics: this.padTraceConnector?.diagnostics ?? [],
+      }
+    }
+
+    return {
+      traces: [...output.attachedTraces, ...output.hangingTraces],
+      vias: [...output.attachedVias, ...output.hangingVias],
+      traceErrors: output.traceErrors,
+      netNameByPcbElementId: new Map([
+        ...this.padTraceConnector!.getOutput().netNameByPcbElementId,
+        ...output.netNameByTraceErrorId,
+      ]),
+      diagnostics: this.padTraceConnector!.diagnostics,
+    }
+  }
+
   override visualize(): GraphicsObject {
     this.initializeTransforms()
 
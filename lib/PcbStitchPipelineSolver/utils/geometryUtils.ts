@@ -71,15 +71,32 @@ export function extractPointsFromCoordinates(
 /**
  * Checks if any part of a wire path intersects with a pad shape.
  * This is more accurate than box intersection for circles and polygons.
+ *
+ * margin grows the hit test, passing half the wire width makes a wire whose
+ * centerline stops short of the pad still touch it when its copper does.
  */
 export function doesWirePathIntersectShape(
   pathPoints: Flatten.Point[],
   padShape: PadShape,
+  margin = 0,
 ): boolean {
   if (pathPoints.length === 0) {
     return false
   }
 
+  if (doesWirePathCenterlineIntersectShape(pathPoints, padShape)) {
+    return true
+  }
+
+  return (
+    margin > 0 && getWirePathToShapeDistance(pathPoints, padShape) <= margin
+  )
+}
+
+function doesWirePathCenterlineIntersectShape(
+  pathPoints: Flatten.Point[],
+  padShape: PadShape,
+): boolean {
   switch (padShape.type) {
     case "circle": {
       const circle = padShape.shape
@@ -125,3 +142,207 @@ export function doesWirePathIntersectShape(
       return false
   }
 }
+
+/**
+ * Returns the shortest distance from a wire path to the outline of a pad
+ * shape
+ */
+function getWirePathToShapeDistance(
+  pathPoints: Flatten.Point[],
+  padShape: PadShape,
+): number {
+  const shape =
+    padShape.type === "box" ? new Polygon(padShape.shape) : padShape.shape
+
+  if (pathPoints.length === 1) {
+    return shape.distanceTo(pathPoints[0]!)[0]
+  }
+
+  let minDistance = Number.POSITIVE_INFINITY
+  for (let i = 0; i < pathPoints.length - 1; i++) {
+    const start = pathPoints[i]!
+    const end = pathPoints[i + 1]!
+    const distance = start.equalTo(end)
+      ? shape.distanceTo(start)[0]
+      : shape.distanceTo(new Segment(start, end))[0]
+    minDistance = Math.min(minDistance, distance)
+  }
+  return minDistance
+}
+
+/**
+ * Returns the shortest distance from a point to a polyline.
+ */
+export function getPointToPolylineDistance(
+  point: Flatten.Point,
+  pathPoints: Flatten.Point[],
+): number {
+  if (pathPoints.length === 0) {
+    return Number.POSITIVE_INFINITY
+  }
+
+  let minDistance = point.distanceTo(pathPoints[0]!)[0]
+  for (let i = 0; i < pathPoints.length - 1; i++) {
+    const start = pathPoints[i]!
+    const end = pathPoints[i + 1]!
+    // Degenerate (zero-length) segments are covered by the point distance
+    const distance = start.equalTo(end)
+      ? point.distanceTo(end)[0]
+      : point.distanceTo(new Segment(start, end))[0]
+    minDistance = Math.min(minDistance, distance)
+  }
+
+  return minDistance
+}
+
+/**
+ * Checks if two wire paths are connected, i.e. an endpoint of one wire lies
+ * on the other wire. Endpoint-to-endpoint connections are a special case of
+ * this. Points closer than the combined half-widths are considered touching
+ * since their copper overlaps.
+ */
+export function doWirePathsConnect(
+  pathA: Flatten.Point[],
+  widthA: number,
+  pathB: Flatten.Point[],
+  widthB: number,
+): boolean {
+  if (pathA.length === 0 || pathB.length === 0) {
+    return false
+  }
+
+  const tolerance = (widthA + widthB) / 2
+
+  const endpointsA = [pathA[0]!, pathA[pathA.length - 1]!]
+  for (const endpoint of endpointsA) {
+    if (getPointToPolylineDistance(endpoint, pathB) <= tolerance) {
+      return true
+    }
+  }
+
+  const endpointsB = [pathB[0]!, pathB[pathB.length - 1]!]
+  for (const endpoint of endpointsB) {
+    if (getPointToPolylineDistance(endpoint, pathA) <= tolerance) {
+      return true
+    }
+  }
+
+  return false
+}
+
+/**
+ * Projects a point onto a polyline. Returns the closest point on the polyline
+ * and its position along the polyline as `segmentIndex + fraction`.
+ */
+export function projectPointOntoPolyline(
+  point: Flatten.Point,
+  pathPoints: Flatten.Point[],
+): { point: Flatten.Point; t: number; distance: number } {
+  let best = {
+    point: pathPoints[0] ?? point,
+    t: 0,
+    distance: pathPoints[0]
+      ? point.distanceTo(pathPoints[0])[0]
+      : Number.POSITIVE_INFINITY,
+  }
+
+  for (let i = 0; i < pathPoints.length - 1; i++) {
+    const start = pathPoints[i]!
+    const end = pathPoints[i + 1]!
+    const dx = end.x - start.x
+    const dy = end.y - start.y
+    const lengthSquared = dx * dx + dy * dy
+    const fraction =
+      lengthSquared === 0
+        ? 0
+        : Math.max(
+            0,
+            Math.min(
+              1,
+              ((point.x - start.x) * dx + (point.y - start.y) * dy) /
+                lengthSquared,
+            ),
+          )
+    const projected = new Point(
+      start.x + dx * fraction,
+      start.y + dy * fraction,
+    )
+    const distance = point.distanceTo(projected)[0]
+    if (distance < best.distance) {
+      best = { point: projected, t: i + fraction, distance }
+    }
+  }
+
+  return best
+}
+
+/**
+ * Returns the point at position `t` (see projectPointOntoPolyline)
+ */
+function getPolylinePointAt(
+  pathPoints: Flatten.Point[],
+  t: number,
+): Flatten.Point {
+  const segmentIndex = Math.max(
+    0,
+    Math.min(Math.floor(t), pathPoints.length - 2),
+  )
+  const start = pathPoints[segmentIndex]!
+  const end = pathPoints[segmentIndex + 1] ?? start
+  const fraction = t - segmentIndex
+  return new Point(
+    start.x + (end.x - start.x) * fraction,
+    start.y + (end.y - start.y) * fraction,
+  )
+}
+
+/**
+ * Returns the part of a polyline between two positions along it (see
+ * projectPointOntoPolyline). The result is reversed if `toT` < `fromT`.
+ */
+export function getPolylineSubpath(
+  pathPoints: Flatten.Point[],
+  fromT: number,
+  toT: number,
+): Flatten.Point[] {
+  if (fromT > toT) {
+    return getPolylineSubpath(pathPoints, toT, fromT).reverse()
+  }
+
+  const subpath = [getPolylinePointAt(pathPoints, fromT)]
+  for (let i = Math.floor(fromT) + 1; i < toT; i++) {
+    subpath.push(pathPoints[i]!)
+  }
+  subpath.push(getPolylinePointAt(pathPoints, toT))
+
+  return subpath
+}
+
+/**
+ * Returns the distance from a point to the copper of a pad, 0 when the point
+ * is inside the pad.
+ */
+export function getPointToPadShapeDistance(
+  point: Flatten.Point,
+  padShape: PadShape,
+): number {
+  switch (padShape.type) {
+    case "circle": {
+      const circle = padShape.shape
+      return Math.max(0, point.distanceTo(circle.center)[0] - circle.r)
+    }
+
+    case "box": {
+      const polygon = new Polygon(padShape.shape)
+      return polygon.contains(point) ? 0 : point.distanceTo(polygon)[0]
+    }
+
+    case "polygon": {
+      const polygon = padShape.shape
+      return polygon.contains(point) ? 0 : point.distanceTo(polygon)[0]
+    }
+
+    default:
+      return Number.POSITIVE_INFINITY
+  }
+}
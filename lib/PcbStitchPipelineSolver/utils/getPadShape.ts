@@ -1,5 +1,12 @@
 import Flatten from "@flatten-js/core"
+import { applyToPoint, compose, scale } from "transformation-matrix"
 import type { SpecificDsnPad } from "../PadTraceConnectorSolver"
+import {
+  getDsnPadstackShapes,
+  getDsnPinShapeMatrix,
+  getDsnPlacementMatrix,
+  getMatrixRotationDegrees,
+} from "../../utils"
 
 const { Point, Box, Circle, Polygon } = Flatten
 
@@ -8,133 +15,70 @@ export type PadShape =
   | { type: "polygon"; shape: Flatten.Polygon }
   | { type: "box"; shape: Flatten.Box }
 
-function getPadstackShapeInfo(padstack: SpecificDsnPad["padstack"]): {
-  type: "circle" | "polygon" | "rect" | "path" | "unknown"
-  diameter?: number
-  coordinates?: number[]
-  width?: number
-  height?: number
-} {
-  const shapes = padstack.shapes || []
-  if (shapes.length === 0) {
-    return { type: "unknown" }
-  }
-
-  const shape = shapes[0]
-  const shapeChildren = shape?.otherChildren || []
-
-  for (const child of shapeChildren) {
-    const token = (child as any).token
-
-    // Circle shape
-    if (token === "circle" || token === "circ") {
-      const circle = child as any
-      const diameter = circle.diameter ?? circle._diameter ?? 0
-      return { type: "circle", diameter }
-    }
-
-    // Rectangle shape
-    if (token === "rect") {
-      const rect = child as any
-      const x1 = rect.x1 ?? rect._x1 ?? 0
-      const y1 = rect.y1 ?? rect._y1 ?? 0
-      const x2 = rect.x2 ?? rect._x2 ?? 0
-      const y2 = rect.y2 ?? rect._y2 ?? 0
-      return {
-        type: "rect",
-        width: Math.abs(x2 - x1),
-        height: Math.abs(y2 - y1),
-      }
-    }
-
-    // Polygon shape
-    if (token === "polygon") {
-      const polygon = child as any
-      const coords: number[] = polygon.coordinates ?? polygon._coordinates ?? []
-      return { type: "polygon", coordinates: coords }
-    }
-
-    // Path shape (oval/pill pads)
-    if (token === "path") {
-      const path = child as any
-      const pathCoords: number[] = path.coordinates ?? path._coordinates ?? []
-      const pathWidth = path.width ?? path._width ?? 0
-      return { type: "path", coordinates: pathCoords, width: pathWidth }
-    }
-  }
-
-  return { type: "unknown" }
-}
-
 /**
  * Returns the actual geometric shape of a pad (circle, polygon, etc.)
  * positioned at its final location in DSN coordinates.
  *
+ * Uses the first padstack shape, placed like CollectPadsStage places pads:
+ * pin rotation, pin offset, X mirroring for back side components, component
+ * rotation and component position. libraryToDsnScale converts pin positions
+ * and padstack sizes when the library has its own (unit ...). Throws for
+ * padstacks without a shape, PadTraceConnectorSolver skips their pads.
  */
-export function getPadShape(pad: SpecificDsnPad): PadShape {
-  const { pin, placementComponent, padstack } = pad
-
-  // Get pin position relative to image origin
-  const pinX = pin.x ?? 0
-  const pinY = pin.y ?? 0
-
-  // Get component placement position
-  const place = placementComponent.places?.[0]
-  const componentX = place?.x ?? 0
-  const componentY = place?.y ?? 0
-  const componentRotation = place?.rotation ?? 0
-
-  // Apply component rotation to pin offset using flatten-js Point rotation
-  const pinOffset = new Point(pinX, pinY)
-  const rotatedPinOffset = pinOffset.rotate(
-    (componentRotation * Math.PI) / 180,
-    new Point(0, 0),
+export function getPadShape(
+  pad: SpecificDsnPad,
+  libraryToDsnScale = 1,
+): PadShape {
+  const { pin, place, padstack } = pad
+
+  const padShapeMatrix = getDsnPinShapeMatrix(
+    compose(
+      getDsnPlacementMatrix({
+        x: place.x ?? 0,
+        y: place.y ?? 0,
+        rotation: place.rotation ?? 0,
+        isBackSide: place.side === "back",
+      }),
+      scale(libraryToDsnScale, libraryToDsnScale),
+    ),
+    { x: pin.x ?? 0, y: pin.y ?? 0, rotation: pin.rotation ?? 0 },
   )
+  const toBoardPoint = (x: number, y: number) => {
+    const point = applyToPoint(padShapeMatrix, { x, y })
+    return new Point(point.x, point.y)
+  }
+  const center = toBoardPoint(0, 0)
 
-  // Calculate final pad center in DSN coordinates
-  const centerX = componentX + rotatedPinOffset.x
-  const centerY = componentY + rotatedPinOffset.y
-  const center = new Point(centerX, centerY)
-
-  // Get padstack shape info
-  const shapeInfo = getPadstackShapeInfo(padstack)
-  const totalRotation = componentRotation + (pin.rotation ?? 0)
-  const rotationRad = (totalRotation * Math.PI) / 180
+  const [shape] = getDsnPadstackShapes(padstack)
 
-  switch (shapeInfo.type) {
+  switch (shape?.shape) {
     case "circle": {
-      const radius = (shapeInfo.diameter ?? 0) / 2
       return {
         type: "circle",
-        shape: new Circle(center, radius),
+        shape: new Circle(
+          toBoardPoint(shape.offset.x, shape.offset.y),
+          (shape.diameter / 2) * libraryToDsnScale,
+        ),
       }
     }
 
     case "polygon": {
-      const coords = shapeInfo.coordinates ?? []
+      const coords = shape.coordinates
       if (coords.length < 6) {
         // Not enough points for a polygon, fallback to box
         return {
           type: "box",
-          shape: new Box(centerX, centerY, centerX, centerY),
+          shape: new Box(center.x, center.y, center.x, center.y),
         }
       }
 
-      // Create polygon points relative to center, apply rotation
       const points: Flatten.Point[] = []
-      for (let i = 0; i < coords.length; i += 2) {
-        const x = coords[i]!
-        const y = coords[i + 1]!
-        // Point relative to pad center, then rotated and translated
-        const pt = new Point(x, y).rotate(rotationRad, new Point(0, 0))
-        points.push(new Point(centerX + pt.x, centerY + pt.y))
+      for (let i = 0; i + 1 < coords.length; i += 2) {
+        points.push(toBoardPoint(coords[i]!, coords[i + 1]!))
       }
 
       // Close the polygon if needed
-      if (
-        points.length > 0 &&
-        !points[points.length - 1]!.equalTo(points[0]!)
-      ) {
+      if (!points[points.length - 1]!.equalTo(points[0]!)) {
         points.push(points[0]!)
       }
 
@@ -144,51 +88,33 @@ export function getPadShape(pad: SpecificDsnPad): PadShape {
     }
 
     case "rect": {
-      const halfW = (shapeInfo.width ?? 0) / 2
-      const halfH = (shapeInfo.height ?? 0) / 2
-
-      // For non-rotated or 180-degree rotated rectangles, use Box
-      const normalizedRotation = ((totalRotation % 360) + 360) % 360
-      if (normalizedRotation === 0 || normalizedRotation === 180) {
-        return {
-          type: "box",
-          shape: new Box(
-            centerX - halfW,
-            centerY - halfH,
-            centerX + halfW,
-            centerY + halfH,
-          ),
-        }
-      }
+      const halfW = shape.width / 2
+      const halfH = shape.height / 2
+      const corners = [
+        toBoardPoint(shape.offset.x - halfW, shape.offset.y - halfH),
+        toBoardPoint(shape.offset.x + halfW, shape.offset.y - halfH),
+        toBoardPoint(shape.offset.x + halfW, shape.offset.y + halfH),
+        toBoardPoint(shape.offset.x - halfW, shape.offset.y + halfH),
+      ]
 
-      // For 90/270 rotations, swap width and height
-      if (normalizedRotation === 90 || normalizedRotation === 270) {
+      // Quarter turns keep the rect axis aligned
+      if (getMatrixRotationDegrees(padShapeMatrix) % 90 === 0) {
+        const xs = corners.map((p) => p.x)
+        const ys = corners.map((p) => p.y)
         return {
           type: "box",
           shape: new Box(
-            centerX - halfH,
-            centerY - halfW,
-            centerX + halfH,
-            centerY + halfW,
+            Math.min(...xs),
+            Math.min(...ys),
+            Math.max(...xs),
+            Math.max(...ys),
           ),
         }
       }
 
-      // For arbitrary rotations, create a rotated polygon
-      const corners = [
-        new Point(-halfW, -halfH),
-        new Point(halfW, -halfH),
-        new Point(halfW, halfH),
-        new Point(-halfW, halfH),
-      ]
-      const rotatedCorners = corners.map((p) => {
-        const rotated = p.rotate(rotationRad, new Point(0, 0))
-        return new Point(centerX + rotated.x, centerY + rotated.y)
-      })
-      rotatedCorners.push(rotatedCorners[0]!) // Close the polygon
-
+      corners.push(corners[0]!) // Close the polygon
       const polygon = new Polygon()
-      polygon.addFace(rotatedCorners)
+      polygon.addFace(corners)
       return { type: "polygon", shape: polygon }
     }
 
@@ -196,8 +122,8 @@ export function getPadShape(pad: SpecificDsnPad): PadShape {
       // Path shapes are treated as polygons for now
       // For a more accurate representation, we would need to create
       // a capsule/stadium shape, but polygon is a reasonable approximation
-      const pathWidth = shapeInfo.width ?? 0
-      const coords = shapeInfo.coordinates ?? []
+      const coords = shape.coordinates
+      const halfW = shape.width / 2
 
       if (coords.length >= 4) {
         const x1 = coords[0]!
@@ -209,7 +135,6 @@ export function getPadShape(pad: SpecificDsnPad): PadShape {
         const dx = x2 - x1
         const dy = y2 - y1
         const len = Math.sqrt(dx * dx + dy * dy)
-        const halfW = pathWidth / 2
 
         if (len > 0) {
           // Normal perpendicular to the path
@@ -217,20 +142,15 @@ export function getPadShape(pad: SpecificDsnPad): PadShape {
           const ny = dx / len
 
           const corners = [
-            new Point(x1 + nx * halfW, y1 + ny * halfW),
-            new Point(x2 + nx * halfW, y2 + ny * halfW),
-            new Point(x2 - nx * halfW, y2 - ny * halfW),
-            new Point(x1 - nx * halfW, y1 - ny * halfW),
+            toBoardPoint(x1 + nx * halfW, y1 + ny * halfW),
+            toBoardPoint(x2 + nx * halfW, y2 + ny * halfW),
+            toBoardPoint(x2 - nx * halfW, y2 - ny * halfW),
+            toBoardPoint(x1 - nx * halfW, y1 - ny * halfW),
           ]
-
-          const rotatedCorners = corners.map((p) => {
-            const rotated = p.rotate(rotationRad, new Point(0, 0))
-            return new Point(centerX + rotated.x, centerY + rotated.y)
-          })
-          rotatedCorners.push(rotatedCorners[0]!)
+          corners.push(corners[0]!)
 
           const polygon = new Polygon()
-          polygon.addFace(rotatedCorners)
+          polygon.addFace(corners)
           return { type: "polygon", shape: polygon }
         }
       }
@@ -238,11 +158,25 @@ export function getPadShape(pad: SpecificDsnPad): PadShape {
       // Fallback: treat as circle with pathWidth diameter
       return {
         type: "circle",
-        shape: new Circle(center, pathWidth / 2),
+        shape: new Circle(center, halfW * libraryToDsnScale),
       }
     }
 
     default:
-      throw new Error(`Unknown pad shape type: ${shapeInfo.type}`)
+      throw new Error(`Unknown pad shape in padstack ${padstack.padstackId}`)
+  }
+}
+
+/**
+ * Returns the center of a pad shape
+ */
+export function getPadShapeCenter(padShape: PadShape): Flatten.Point {
+  switch (padShape.type) {
+    case "circle":
+      return padShape.shape.center
+    case "box":
+      return padShape.shape.center
+    case "polygon":
+      return padShape.shape.box.center
   }
 }
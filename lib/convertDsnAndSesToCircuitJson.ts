@@ -0,0 +1,46 @@
+import type { CircuitJson } from "circuit-json"
+import { DsnToCircuitJsonConverter } from "./dsn-to-circuit-json/DsnToCircuitJsonConverter"
+import type { DsnToCircuitJsonConverterOptions } from "./dsn-to-circuit-json/types"
+import { SesToCircuitJsonConverter } from "./ses-to-circuit-json/SesToCircuitJsonConverter"
+
+/**
+ * Converts a DSN file and the SES the autorouter produced from it into a
+ * single board.
+ *
+ * The DSN is converted with DsnToCircuitJsonConverter, then the SES placement
+ * is applied and the SES routes and vias are inserted into the same
+ * database, in the same coordinate frame.
+ * Traces are linked to the source_trace of their net and their endpoints to
+ * the DSN-derived pcb_ports.
+ *
+ * Usage:
+ * ```typescript
+ * // DSN → Freerouting → SES
+ * const circuitJson = convertDsnAndSesToCircuitJson(dsnString, sesString)
+ * ```
+ *
+ * @param dsnString - The raw DSN file content as a string
+ * @param sesString - The raw SES file routed from the DSN
+ * @param options - Optional configuration of the DSN conversion, the SES
+ * uses the same origin, yOrientation, layerMapping and strict mode
+ * @returns The DSN circuit JSON with the SES routes added
+ */
+export function convertDsnAndSesToCircuitJson(
+  dsnString: string,
+  sesString: string,
+  options: DsnToCircuitJsonConverterOptions = {},
+): CircuitJson {
+  const dsnConverter = new DsnToCircuitJsonConverter(dsnString, options)
+  dsnConverter.runUntilFinished()
+
+  const sesConverter = new SesToCircuitJsonConverter(sesString, dsnString, {
+    db: dsnConverter.ctx.db,
+    yOrientation: dsnConverter.ctx.yOrientation,
+    origin: dsnConverter.ctx.origin,
+    layerMapping: dsnConverter.ctx.layerMapping,
+    strict: dsnConverter.ctx.strict,
+  })
+  sesConverter.runUntilFinished()
+
+  return sesConverter.getOutput()
+}
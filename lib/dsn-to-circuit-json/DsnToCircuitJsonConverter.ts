@@ -1,12 +1,20 @@
-import { parseSpectraDsn, type SpectraDsn } from "dsnts"
 import { cju } from "@tscircuit/circuit-json-util"
 import type { CircuitJson } from "circuit-json"
-import type { ConverterContext, DsnToCircuitJsonConverterStage } from "./types"
+import { parseDsn, type ConverterDiagnostic } from "../utils"
+import type {
+  ConverterContext,
+  DsnElementCategory,
+  DsnNetDesignRules,
+  DsnToCircuitJsonConverterOptions,
+  DsnToCircuitJsonConverterStage,
+} from "./types"
 import { InitializeDsnContextStage } from "./stages/InitializeDsnContextStage"
 import { CollectBoardInfoStage } from "./stages/CollectBoardInfoStage"
 import { CollectComponentsStage } from "./stages/CollectComponentsStage"
 import { CollectPadsStage } from "./stages/CollectPadsStage"
 import { CollectNetsStage } from "./stages/CollectNetsStage"
+import { CollectPlanesStage } from "./stages/CollectPlanesStage"
+import { CollectKeepoutsStage } from "./stages/CollectKeepoutsStage"
 import { CollectTracesStage } from "./stages/CollectTracesStage"
 
 /**
@@ -18,13 +26,25 @@ import { CollectTracesStage } from "./stages/CollectTracesStage"
  * 3. CollectComponentsStage - Create pcb_component elements from placements
  * 4. CollectPadsStage - Create pcb_smtpad and pcb_plated_hole elements
  * 5. CollectNetsStage - Create source_net and source_trace elements
- * 6. CollectTracesStage - Create pcb_trace elements from wiring section
+ * 6. CollectPlanesStage - Create pcb_copper_pour elements from planes and
+ *    power layers
+ * 7. CollectKeepoutsStage - Create pcb_keepout elements from board and
+ *    image keepouts
+ * 8. CollectTracesStage - Create pcb_trace elements from wiring section
+ *
+ * Stages of element categories disabled with options.emit are left out.
  *
  * Usage:
  * ```typescript
  * const converter = new DsnToCircuitJsonConverter(dsnString)
  * converter.runUntilFinished()
  * const circuitJson = converter.getOutput()
+ *
+ * // Keep the DSN origin and skip the routes
+ * const unrouted = convertDsnToCircuitJson(dsnString, {
+ *   origin: "dsn",
+ *   emit: { traces: false },
+ * })
  * ```
  */
 export class DsnToCircuitJsonConverter {
@@ -40,25 +60,49 @@ export class DsnToCircuitJsonConverter {
   /**
    * Create a new converter from a DSN string.
    * @param dsnString - The raw DSN file content as a string
+   * @param options - Optional configuration, see
+   * DsnToCircuitJsonConverterOptions
    */
-  constructor(dsnString: string) {
+  constructor(
+    dsnString: string,
+    options: DsnToCircuitJsonConverterOptions = {},
+  ) {
     // Parse the DSN file using dsnts
-    const spectraDsn = parseSpectraDsn(dsnString)
+    const spectraDsn = parseDsn(dsnString)
 
     // Initialize the context with parsed DSN and empty circuit JSON database
     this.ctx = {
       specctraDsn: spectraDsn,
       db: cju([]), // Start with empty circuit JSON
+      diagnostics: [],
+      strict: options.strict ?? false,
+      yOrientation: options.yOrientation ?? "preserve",
+      origin: options.origin ?? "center",
+      boardThickness: options.boardThickness ?? 1.4,
+      defaultTraceWidth: options.defaultTraceWidth ?? 0.2,
+      defaultPadSize: options.defaultPadSize ?? 1,
+      defaultComponentFtype: options.defaultComponentFtype ?? "simple_chip",
+      layerMapping: options.layerMapping ?? {},
     }
 
-    // Set up the conversion pipeline
+    // Set up the conversion pipeline, one stage per element category
+    const emit = options.emit ?? {}
+    const categoryStages: Array<
+      [DsnElementCategory, DsnToCircuitJsonConverterStage]
+    > = [
+      ["board", new CollectBoardInfoStage(this.ctx)],
+      ["components", new CollectComponentsStage(this.ctx)],
+      ["pads", new CollectPadsStage(this.ctx)],
+      ["nets", new CollectNetsStage(this.ctx)],
+      ["planes", new CollectPlanesStage(this.ctx)],
+      ["keepouts", new CollectKeepoutsStage(this.ctx)],
+      ["traces", new CollectTracesStage(this.ctx)],
+    ]
     this.pipeline = [
       new InitializeDsnContextStage(this.ctx),
-      new CollectBoardInfoStage(this.ctx),
-      new CollectComponentsStage(this.ctx),
-      new CollectPadsStage(this.ctx),
-      new CollectNetsStage(this.ctx),
-      new CollectTracesStage(this.ctx),
+      ...categoryStages
+        .filter(([category]) => emit[category] !== false)
+        .map(([, stage]) => stage),
     ]
   }
 
@@ -96,15 +140,37 @@ export class DsnToCircuitJsonConverter {
   getOutput(): CircuitJson {
     return this.ctx.db.toArray() as CircuitJson
   }
+
+  /**
+   * Get the problems found during the conversion, e.g. pins whose padstack
+   * is missing. Elements they concern were skipped or simplified.
+   */
+  getDiagnostics(): ConverterDiagnostic[] {
+    return this.ctx.diagnostics
+  }
+
+  /**
+   * Get the class, clearance and via of each net by net name, which
+   * circuit-json source_nets have no place for. Empty when nets aren't
+   * emitted.
+   */
+  getNetDesignRules(): Map<string, DsnNetDesignRules> {
+    return this.ctx.netNameToDesignRules ?? new Map()
+  }
 }
 
 /**
  * Convenience function to convert a DSN string to Circuit JSON.
  * @param dsnString - The raw DSN file content as a string
+ * @param options - Optional configuration, see
+ * DsnToCircuitJsonConverterOptions
  * @returns The converted Circuit JSON array
  */
-export function convertDsnToCircuitJson(dsnString: string): CircuitJson {
-  const converter = new DsnToCircuitJsonConverter(dsnString)
+export function convertDsnToCircuitJson(
+  dsnString: string,
+  options?: DsnToCircuitJsonConverterOptions,
+): CircuitJson {
+  const converter = new DsnToCircuitJsonConverter(dsnString, options)
   converter.runUntilFinished()
   return converter.getOutput()
 }
@@ -4,6 +4,9 @@ export {
 } from "./DsnToCircuitJsonConverter"
 export type {
   ConverterContext,
+  DsnElementCategory,
+  DsnNetDesignRules,
+  DsnToCircuitJsonConverterOptions,
   DsnToCircuitJsonConverterStage as ConverterStage,
 } from "./types"
 export * from "./stages"
@@ -45,6 +45,7 @@ export class CollectBoardInfoStage extends DsnToCircuitJsonConverterStage {
         center: { x: 0, y: 0 },
         width: 100,
         height: 100,
+        thickness: this.ctx.boardThickness,
       } as PcbBoard)
       this.finished = true
       return false
@@ -112,12 +113,12 @@ export class CollectBoardInfoStage extends DsnToCircuitJsonConverterStage {
     }
 
     // Count layers
-    const numLayers = (structure.layers || []).length || 2
+    const numLayers = this.ctx.layerTable!.layerRefs.length
 
     // Create pcb_board
     const boardData: any = {
       center: { x: centerX, y: centerY },
-      thickness: 1.4, // Standard PCB thickness in mm
+      thickness: this.ctx.boardThickness,
       num_layers: numLayers,
     }
 
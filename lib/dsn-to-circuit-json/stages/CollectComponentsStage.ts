@@ -1,5 +1,6 @@
 import { DsnToCircuitJsonConverterStage } from "../types"
 import { applyToPoint } from "transformation-matrix"
+import { getCircuitJsonRotation } from "../../utils"
 
 /**
  * CollectComponentsStage creates source_component and pcb_component elements
@@ -26,7 +27,8 @@ import { applyToPoint } from "transformation-matrix"
  *
  * Rotation:
  * - DSN rotation is in degrees (0-360)
- * - Circuit JSON rotation is also in degrees
+ * - Circuit JSON rotation is also in degrees, negated when the yOrientation
+ *   is "flip"
  */
 export class CollectComponentsStage extends DsnToCircuitJsonConverterStage {
   private processedComponents = new Set<string>()
@@ -45,6 +47,10 @@ export class CollectComponentsStage extends DsnToCircuitJsonConverterStage {
       return false
     }
 
+    const libraryImageIds = new Set(
+      (spectraDsn.library?.images ?? []).map((image) => image.imageId),
+    )
+
     // Process each component definition (dsnts uses _components with underscored props)
     const components = placement.components || placement._components || []
     for (const component of components) {
@@ -64,6 +70,16 @@ export class CollectComponentsStage extends DsnToCircuitJsonConverterStage {
           continue
         }
 
+        if (!libraryImageIds.has(imageId)) {
+          this.addDiagnostic({
+            code: "unknown_image",
+            severity: "error",
+            sourcePath: `placement/component ${imageId}/place ${componentRef}`,
+            token: "place",
+            message: `Component ${componentRef} uses image "${imageId}", which isn't in the library. It has no pads.`,
+          })
+        }
+
         // Get position (dsnts uses _x, _y) - default to origin
         const x = place.x ?? place._x ?? 0
         const y = place.y ?? place._y ?? 0
@@ -78,8 +94,11 @@ export class CollectComponentsStage extends DsnToCircuitJsonConverterStage {
         const side = place.side ?? place._side ?? "front"
         const layer = side === "back" ? "bottom" : "top"
 
-        // Get rotation - dsnts uses _rotation
-        const rotation = place.rotation ?? place._rotation ?? 0
+        // Get rotation - dsnts uses _rotation. Flipping Y reverses it.
+        const rotation = getCircuitJsonRotation(
+          place.rotation ?? place._rotation ?? 0,
+          this.ctx.yOrientation,
+        )
 
         // Get part number (PN) if available
         const partNumber = this.extractPartNumber(place)
@@ -88,7 +107,7 @@ export class CollectComponentsStage extends DsnToCircuitJsonConverterStage {
         const sourceComponent = this.ctx.db.source_component.insert({
           name: componentRef,
           display_value: partNumber || "",
-          ftype: "simple_chip", // Default type, could be inferred from imageId
+          ftype: this.ctx.defaultComponentFtype,
         } as any)
 
         const sourceComponentId = sourceComponent.source_component_id
@@ -107,6 +126,8 @@ export class CollectComponentsStage extends DsnToCircuitJsonConverterStage {
 
         // Store mappings
         this.ctx.componentRefToId!.set(componentRef, pcbComponentId)
+        this.ctx.componentIdToRef!.set(pcbComponentId, componentRef)
+        this.ctx.pcbComponentById!.set(pcbComponentId, pcbComponent)
         this.ctx.sourceComponentRefToId!.set(componentRef, sourceComponentId)
         this.ctx.imageIdToComponentIds!.get(imageId)!.push(pcbComponentId)
 
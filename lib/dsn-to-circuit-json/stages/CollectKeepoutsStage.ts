@@ -0,0 +1,182 @@
+import { DsnToCircuitJsonConverterStage } from "../types"
+import type { LayerRef, PCBKeepout, PcbComponent } from "circuit-json"
+import { DsnCircle, DsnKeepout, DsnPath, DsnPolygon, DsnRect } from "dsnts"
+import { compose, scale, type Matrix } from "transformation-matrix"
+import {
+  getDsnKeepoutKind,
+  getDsnKeepoutShapes,
+  getDsnPlacementMatrix,
+  mapDsnLayerToLayerRef,
+} from "../../utils"
+
+/**
+ * CollectKeepoutsStage creates pcb_keepout elements from DSN keepouts.
+ *
+ * DSN Keepouts:
+ * (structure
+ *   (keepout "" (polygon signal 0 x1 y1 x2 y2 ...))
+ *   (via_keepout (rect F.Cu x1 y1 x2 y2))
+ * )
+ * (library
+ *   (image <image_id>
+ *     (wire_keepout (circle B.Cu <diameter> <x> <y>))
+ *     (place_keepout (rect signal x1 y1 x2 y2))
+ *   )
+ * )
+ *
+ * This stage:
+ * 1. Creates pcb_keepouts for the keepouts of the structure (board level)
+ * 2. Creates pcb_keepouts for the keepouts of each image, once per placed
+ *    component, placed like its pads. Keepouts of back side components are
+ *    mirrored and move to the other side of the board.
+ *
+ * circuit-json keepouts are circles or rects, so rects, polygons and paths
+ * become their bounding rect. The keepout kind is kept in the description
+ * (e.g. "via_keepout"). Keepouts on the "signal" layer, or without a layer,
+ * apply to every copper layer.
+ */
+export class CollectKeepoutsStage extends DsnToCircuitJsonConverterStage {
+  step(): boolean {
+    const { specctraDsn: spectraDsn, dsnToCircuitJsonTransformMatrix } =
+      this.ctx
+
+    if (!dsnToCircuitJsonTransformMatrix) {
+      throw new Error("Transform matrix not initialized")
+    }
+
+    for (const keepout of spectraDsn.structure?.keepouts ?? []) {
+      this.reportUnsupportedShapes(keepout, "structure")
+      this.createKeepout(
+        keepout,
+        dsnToCircuitJsonTransformMatrix,
+        this.ctx.dsnToMmScale!,
+        "top",
+      )
+    }
+
+    for (const image of spectraDsn.library?.images ?? []) {
+      const keepouts = image.otherChildren.filter(
+        (child): child is DsnKeepout => child instanceof DsnKeepout,
+      )
+      if (keepouts.length === 0 || !image.imageId) continue
+
+      for (const keepout of keepouts) {
+        this.reportUnsupportedShapes(keepout, `library/image ${image.imageId}`)
+      }
+
+      const componentIds =
+        this.ctx.imageIdToComponentIds?.get(image.imageId) ?? []
+      for (const componentId of componentIds) {
+        const pcbComponent = this.ctx.pcbComponentById!.get(componentId)
+        if (!pcbComponent) continue
+
+        const imageToCircuitJsonMatrix =
+          this.getImageToCircuitJsonMatrix(pcbComponent)
+        for (const keepout of keepouts) {
+          this.createKeepout(
+            keepout,
+            imageToCircuitJsonMatrix,
+            this.ctx.dsnLibraryToMmScale!,
+            pcbComponent.layer ?? "top",
+          )
+        }
+      }
+    }
+
+    this.finished = true
+    return false
+  }
+
+  /**
+   * Image coordinates are in DSN library units relative to the component
+   * origin.
+   * Same as pads: scale to mm, mirror back side components in X, rotate by
+   * the component rotation and move to the component center.
+   */
+  private getImageToCircuitJsonMatrix(pcbComponent: PcbComponent): Matrix {
+    const dsnToMmScale = this.ctx.dsnLibraryToMmScale!
+    return compose(
+      getDsnPlacementMatrix({
+        x: pcbComponent.center.x,
+        y: pcbComponent.center.y,
+        rotation: pcbComponent.rotation ?? 0,
+        isBackSide: pcbComponent.layer === "bottom",
+        isYFlipped: this.ctx.yOrientation === "flip",
+      }),
+      scale(dsnToMmScale, dsnToMmScale),
+    )
+  }
+
+  /**
+   * Adds a diagnostic for each shape of the keepout that isn't a circle,
+   * rect, polygon or path, createKeepout skips them
+   */
+  private reportUnsupportedShapes(
+    keepout: DsnKeepout,
+    parentPath: string,
+  ): void {
+    for (const shape of keepout.otherChildren) {
+      if (
+        shape instanceof DsnCircle ||
+        shape instanceof DsnRect ||
+        shape instanceof DsnPolygon ||
+        shape instanceof DsnPath
+      ) {
+        continue
+      }
+      this.addDiagnostic({
+        code: "unsupported_keepout_shape",
+        severity: "warning",
+        sourcePath: `${parentPath}/${keepout.token}/${shape.token}`,
+        token: shape.token,
+        message: `Unsupported keepout shape (${shape.token} ...) was ignored`,
+      })
+    }
+  }
+
+  private createKeepout(
+    keepout: DsnKeepout,
+    matrix: Matrix,
+    dsnToMmScale: number,
+    componentLayer: LayerRef,
+  ): void {
+    const description = getDsnKeepoutKind(keepout)
+
+    for (const { dsnLayer, ...shape } of getDsnKeepoutShapes(
+      keepout,
+      matrix,
+      dsnToMmScale,
+    )) {
+      this.ctx.db.pcb_keepout.insert({
+        ...shape,
+        layers: this.getKeepoutLayers(dsnLayer, componentLayer),
+        description,
+      } as PCBKeepout)
+    }
+  }
+
+  /**
+   * Maps the layer of a keepout shape to circuit-json layers. Image keepouts
+   * of back side components are flipped to the other side of the board.
+   */
+  private getKeepoutLayers(
+    dsnLayer: string | number | undefined,
+    componentLayer: LayerRef,
+  ): LayerRef[] {
+    const { layerTable } = this.ctx
+
+    if (
+      dsnLayer === undefined ||
+      dsnLayer === "" ||
+      String(dsnLayer).toLowerCase() === "signal"
+    ) {
+      return [...layerTable!.layerRefs]
+    }
+
+    const layer = mapDsnLayerToLayerRef(dsnLayer, layerTable!)
+    if (componentLayer !== "bottom") return [layer]
+    if (layer === "top") return ["bottom"]
+    if (layer === "bottom") return ["top"]
+    return [layer]
+  }
+}
@@ -1,4 +1,16 @@
-import { DsnToCircuitJsonConverterStage } from "../types"
+import {
+  DsnToCircuitJsonConverterStage,
+  type DsnNetDesignRules,
+} from "../types"
+import type { DsnClass } from "dsnts"
+import type { SourceTrace } from "circuit-json"
+import {
+  getDsnClassViaPadstackId,
+  getDsnRuleValues,
+  getPadstackShapeMinSize,
+  resolveDsnPinRef,
+  type DsnRuleValues,
+} from "../../utils"
 
 /**
  * CollectNetsStage creates source_net and source_trace elements from DSN network section.
@@ -9,6 +21,7 @@ import { DsnToCircuitJsonConverterStage } from "../types"
  *     (pins <component_ref>-<pin_id> <component_ref>-<pin_id> ...)
  *   )
  *   (class <class_name> <net_name> <net_name> ...
+ *     (circuit (use_via <via_padstack_id>))
  *     (rule (width 200) (clearance 200))
  *   )
  * )
@@ -17,13 +30,27 @@ import { DsnToCircuitJsonConverterStage } from "../types"
  * 1. Creates source_net elements for each net
  * 2. Creates source_trace elements to connect ports belonging to the same net
  * 3. Associates pcb_ports with their nets
+ * 4. Records the net's class and design rules (see DsnNetDesignRules), and
+ *    adds its trace width to the source_net as trace_width and to the
+ *    source_trace as min_trace_thickness
+ * 5. Creates a source_trace_not_connected_error for nets with pins that
+ *    don't match a pin of a placed component (unknown component or pin).
+ *    It has the net's source_trace_id, when the net has one, and the pin
+ *    references are its selectors_not_found
+ *
+ * Rules of the net override rules of its class, which override the
+ * (structure (rule ...)). The via is the class (use_via ...), or the first
+ * (structure (via ...)).
  *
  * Net naming in DSN:
  * - Net names can be quoted strings or identifiers
- * - Pin references format: "component_ref-pin_id" (e.g., "R1-1", "U1-VCC")
+ * - Pin references format: "component_ref-pin_id" (e.g., "R1-1", "U1-VCC").
+ *   Both parts may contain dashes or be quoted ("U1-A"-"B-3"), references
+ *   are split at the longest component ref that has the pin
  */
 export class CollectNetsStage extends DsnToCircuitJsonConverterStage {
   private processedNets = new Set<string>()
+  private classByNetName = new Map<string, DsnClass>()
 
   step(): boolean {
     const { specctraDsn: spectraDsn } = this.ctx
@@ -34,6 +61,12 @@ export class CollectNetsStage extends DsnToCircuitJsonConverterStage {
       return false
     }
 
+    for (const netClass of network.classes) {
+      for (const netName of netClass.netNames) {
+        if (netName) this.classByNetName.set(netName, netClass)
+      }
+    }
+
     // Process each net
     for (const net of network.nets || []) {
       const netName = net.netName
@@ -71,71 +104,129 @@ export class CollectNetsStage extends DsnToCircuitJsonConverterStage {
     }
 
     // Create source_net
+    const designRules = this.getNetDesignRules(net)
+    this.ctx.netNameToDesignRules!.set(netName, designRules)
     const sourceNetInserted = this.ctx.db.source_net.insert({
       name: netName,
       member_source_group_ids: [],
-    } as any)
+      ...(designRules.traceWidth !== undefined && {
+        trace_width: designRules.traceWidth,
+      }),
+    })
 
     const sourceNetId = sourceNetInserted.source_net_id
     this.ctx.netNameToId!.set(netName, sourceNetId)
 
     // Collect connected port IDs
     const connectedPortIds: string[] = []
+    const connectedSourcePortIds: string[] = []
+    const unresolvedPinRefs: string[] = []
 
     for (const pinRef of pinRefs) {
-      const portId = this.ctx.pinRefToPortId?.get(pinRef)
-      if (portId) {
-        connectedPortIds.push(portId)
+      const pinPorts = this.resolvePinRef(pinRef)
+      if (pinPorts) {
+        connectedPortIds.push(pinPorts.pcbPortId)
+        connectedSourcePortIds.push(pinPorts.sourcePortId)
       } else {
-        // Try alternative formats
-        // DSN sometimes uses different separators
-        const altPinRef = pinRef.replace("-", "_")
-        const altPortId = this.ctx.pinRefToPortId?.get(altPinRef)
-        if (altPortId) {
-          connectedPortIds.push(altPortId)
-        }
+        unresolvedPinRefs.push(pinRef)
+        this.addDiagnostic({
+          code: "unresolved_pin_ref",
+          severity: "error",
+          sourcePath: `network/net ${netName}/pins`,
+          token: "pins",
+          message: `Net ${netName} pin ${pinRef} doesn't match a pin of a placed component, it isn't connected`,
+        })
       }
     }
 
+    let sourceTrace: SourceTrace | undefined
+
     // Create source_trace if there are connected ports or if net has pins
     if (connectedPortIds.length >= 2 || pinRefs.length >= 2) {
-      // Use existing source_port IDs from CollectPadsStage if available
-      const sourcePortIds: string[] = []
-
-      for (const pinRef of pinRefs) {
-        // Look up source_port by pinRef
-        const existingPortId = this.findSourcePortByPinRef(pinRef)
-        if (existingPortId) {
-          sourcePortIds.push(existingPortId)
-        }
-      }
-
       // Create source_trace connecting all ports
-      const sourceTrace = this.ctx.db.source_trace.insert({
-        connected_source_port_ids: sourcePortIds,
+      sourceTrace = this.ctx.db.source_trace.insert({
+        connected_source_port_ids: connectedSourcePortIds,
         connected_source_net_ids: [sourceNetId],
         display_name: netName,
-      } as any)
+        min_trace_thickness: designRules.traceWidth,
+      })
 
       // Store the mapping for trace creation
       this.ctx.netNameToSourceTraceId!.set(netName, sourceTrace.source_trace_id)
     }
+
+    if (unresolvedPinRefs.length > 0) {
+      this.ctx.db.source_trace_not_connected_error.insert({
+        error_type: "source_trace_not_connected_error",
+        message: `Net ${netName} isn't connected to ${unresolvedPinRefs.join(", ")}, no placed component has these pins`,
+        source_trace_id: sourceTrace?.source_trace_id,
+        connected_source_port_ids: sourceTrace?.connected_source_port_ids,
+        selectors_not_found: unresolvedPinRefs,
+      })
+    }
   }
 
   /**
-   * Find source_port by pin reference.
-   * Pin reference format: "componentRef-pinId" (e.g., "R1-1", "U1-VCC")
+   * Resolves the class, trace width, clearance and via of a net. Undefined
+   * rules are left out.
    */
-  private findSourcePortByPinRef(pinRef: string): string | undefined {
-    // Look through all source_ports to find matching one
-    const sourcePorts = this.ctx.db.source_port.list()
-
-    for (const port of sourcePorts) {
-      if ((port as any).name === pinRef) {
-        return (port as any).source_port_id
-      }
+  private getNetDesignRules(net: any): DsnNetDesignRules {
+    const { specctraDsn, dsnToMmScale, dsnLibraryToMmScale } = this.ctx
+    const structure = specctraDsn.structure
+    const netClass = this.classByNetName.get(net.netName)
+
+    const ruleValues: DsnRuleValues = {
+      ...getDsnRuleValues(structure?.rules ?? []),
+      ...definedValues(getDsnRuleValues(netClass?.otherChildren ?? [])),
+      ...definedValues(getDsnRuleValues(net.otherChildren ?? [])),
     }
 
-    return undefined
+    const viaPadstackId =
+      getDsnClassViaPadstackId(netClass?.otherChildren ?? []) ??
+      structure?.vias[0]?.padstackNames[0]
+    const viaPadstackInfo = viaPadstackId
+      ? this.ctx.padstackIdToInfo?.get(viaPadstackId)
+      : undefined
+    const viaShape = viaPadstackInfo?.shapes[0]
+
+    return definedValues({
+      netClass: netClass?.className,
+      traceWidth:
+        ruleValues.width !== undefined
+          ? ruleValues.width * dsnToMmScale!
+          : undefined,
+      clearance:
+        ruleValues.clearance !== undefined
+          ? ruleValues.clearance * dsnToMmScale!
+          : undefined,
+      viaPadstackId,
+      viaDiameter: viaShape
+        ? getPadstackShapeMinSize(viaShape) * dsnLibraryToMmScale!
+        : undefined,
+      viaHoleDiameter: viaPadstackInfo?.holeDiameter,
+    })
+  }
+
+  /**
+   * Returns the ports of the pin a net pin reference points to. The
+   * reference is split on the known component refs, so refs and pin ids may
+   * contain dashes. DSN sometimes uses "_" as the separator instead.
+   */
+  private resolvePinRef(
+    pinRef: string,
+  ): { sourcePortId: string; pcbPortId: string } | undefined {
+    const pinPortsByComponentRef = this.ctx.pinPortsByComponentRef!
+    const resolved =
+      resolveDsnPinRef(pinRef, pinPortsByComponentRef) ??
+      resolveDsnPinRef(pinRef.replace("-", "_"), pinPortsByComponentRef)
+    return (
+      resolved &&
+      pinPortsByComponentRef.get(resolved.componentRef)!.get(resolved.pinId)
+    )
   }
 }
+
+const definedValues = <T extends object>(values: T): T =>
+  Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== undefined),
+  ) as T
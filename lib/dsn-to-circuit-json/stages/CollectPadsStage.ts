@@ -1,5 +1,22 @@
 import { DsnToCircuitJsonConverterStage } from "../types"
-import { applyToPoint, compose, rotate, translate } from "transformation-matrix"
+import type { LayerRef } from "circuit-json"
+import type { DsnImage } from "dsnts"
+import {
+  applyToPoint,
+  compose,
+  scale,
+  type Matrix,
+} from "transformation-matrix"
+import {
+  getCoordinatesBoundsSize,
+  getDsnPinShapeMatrix,
+  getDsnPlacementMatrix,
+  getMatrixRotationDegrees,
+  getPadstackShapeMinSize,
+  mapDsnLayerToLayerRef,
+  type DsnPadstackInfo,
+  type DsnPadstackShape,
+} from "../../utils"
 
 /**
  * CollectPadsStage creates pcb_smtpad, pcb_plated_hole, source_port, and pcb_port
@@ -8,7 +25,7 @@ import { applyToPoint, compose, rotate, translate } from "transformation-matrix"
  * DSN Library Section:
  * (library
  *   (image <image_id>
- *     (pin <padstack_id> <pin_id> <x> <y> [rotation])
+ *     (pin <padstack_id> [(rotate <degrees>)] <pin_id> <x> <y>)
  *   )
  *   (padstack <padstack_id>
  *     (shape (circle <layer> <diameter>))
@@ -22,15 +39,21 @@ import { applyToPoint, compose, rotate, translate } from "transformation-matrix"
  * 1. Iterates through all images in the library
  * 2. For each image, processes its pins
  * 3. Looks up padstack info to determine pad shape
- * 4. Creates pcb_smtpad or pcb_plated_hole elements
+ * 4. Creates a pcb_plated_hole for through-hole padstacks (copper on both
+ *    outer layers), otherwise a pcb_smtpad per padstack shape
  * 5. Creates source_port elements (logical ports)
  * 6. Creates pcb_port elements for net connectivity
  *
- * Pin positions are relative to the component origin.
- * Final pad position = component_position + rotated(pin_position)
+ * Pin positions are relative to the component origin. Pad shapes are rotated
+ * by the pin rotation, moved to the pin, mirrored in X for back side
+ * components, rotated by the component rotation and moved to the component
+ * position (see getDsnPlacementMatrix). Pads of back side components move to
+ * the other side of the board. With a flipped yOrientation, images are also
+ * mirrored in Y so pads keep their place relative to the flipped board.
  */
 export class CollectPadsStage extends DsnToCircuitJsonConverterStage {
   private processedImages = new Set<string>()
+  private estimatedHolePadstackIds = new Set<string>()
 
   step(): boolean {
     const { specctraDsn: spectraDsn, dsnToCircuitJsonTransformMatrix } =
@@ -59,11 +82,11 @@ export class CollectPadsStage extends DsnToCircuitJsonConverterStage {
         continue
       }
 
+      this.reportUnknownPadstacks(image)
+
       // Get component info for each placement
       for (const componentId of componentIds) {
-        const pcbComponent = this.ctx.db.pcb_component
-          .list()
-          .find((c: any) => c.pcb_component_id === componentId)
+        const pcbComponent = this.ctx.pcbComponentById!.get(componentId)
 
         if (!pcbComponent) continue
 
@@ -74,13 +97,7 @@ export class CollectPadsStage extends DsnToCircuitJsonConverterStage {
         const componentLayer = (pcbComponent as any).layer ?? "top"
 
         // Get the component reference from the reverse mapping
-        let componentRef = ""
-        for (const [ref, id] of this.ctx.componentRefToId!.entries()) {
-          if (id === componentId) {
-            componentRef = ref
-            break
-          }
-        }
+        const componentRef = this.ctx.componentIdToRef!.get(componentId) ?? ""
 
         // Process each pin in the image (dsnts uses _pins)
         const pins = image.pins
@@ -105,6 +122,25 @@ export class CollectPadsStage extends DsnToCircuitJsonConverterStage {
     return false
   }
 
+  /**
+   * Pins whose padstack isn't in the library get no pad, report them once
+   * per image
+   */
+  private reportUnknownPadstacks(image: DsnImage): void {
+    for (const pin of image.pins) {
+      if (!pin.padstackId || this.ctx.padstackIdToInfo?.has(pin.padstackId)) {
+        continue
+      }
+      this.addDiagnostic({
+        code: "unknown_padstack",
+        severity: "error",
+        sourcePath: `library/image ${image.imageId}/pin ${pin.pinId}`,
+        token: "pin",
+        message: `Pin ${pin.pinId} of image "${image.imageId}" uses padstack "${pin.padstackId}", which isn't in the library. It has no pad.`,
+      })
+    }
+  }
+
   private processPin(
     pin: any,
     componentId: string,
@@ -116,8 +152,7 @@ export class CollectPadsStage extends DsnToCircuitJsonConverterStage {
     transformMatrix: any,
   ): void {
     // dsnts uses underscored properties
-    // DSN pin format: (pin <padstack_id> <pin_number> <x> <y>)
-    // dsnts parses: _padstackId, _x (pin number!), _y (x coord), _rotation (y coord)
+    // DSN pin format: (pin <padstack_id> [(rotate <degrees>)] <pin_number> <x> <y>)
     const padstackId = pin.padstackId || pin._padstackId
     const pinId = String(pin.pinId ?? pin._x ?? "") // _x is actually pin number
     const pinX = pin.x ?? pin._y ?? 0 // _y is actually x coordinate
@@ -131,38 +166,27 @@ export class CollectPadsStage extends DsnToCircuitJsonConverterStage {
       return
     }
 
-    // Pin position is in DSN coordinates relative to component
-    // We need to:
-    // 1. Convert pin position from DSN units to mm
-    // 2. Apply component rotation to pin position
-    // 3. Add to component position
-
-    // First transform the pin offset from DSN to mm (just scaling)
-    const DSN_TO_MM_SCALE = 1 / 1000
-    const pinOffsetMm = {
-      x: pinX * DSN_TO_MM_SCALE,
-      y: pinY * DSN_TO_MM_SCALE,
-    }
-
-    // Apply component rotation to pin offset
-    const rotationRad = (componentRotation * Math.PI) / 180
-    const rotatedPinOffset = {
-      x:
-        pinOffsetMm.x * Math.cos(rotationRad) -
-        pinOffsetMm.y * Math.sin(rotationRad),
-      y:
-        pinOffsetMm.x * Math.sin(rotationRad) +
-        pinOffsetMm.y * Math.cos(rotationRad),
-    }
-
-    // Calculate final pad position
-    const padPosition = {
-      x: componentX + rotatedPinOffset.x,
-      y: componentY + rotatedPinOffset.y,
-    }
-
-    // Determine layer from padstack or component
-    const layer = this.mapLayer(padstackInfo.layer, componentLayer)
+    // Image coordinates (DSN units) -> board mm: back side components are
+    // mirrored in X, then rotated and moved to the component center
+    const DSN_TO_MM_SCALE = this.ctx.dsnLibraryToMmScale!
+    const imageMatrix = compose(
+      getDsnPlacementMatrix({
+        x: componentX,
+        y: componentY,
+        rotation: componentRotation,
+        isBackSide: componentLayer === "bottom",
+        isYFlipped: this.ctx.yOrientation === "flip",
+      }),
+      scale(DSN_TO_MM_SCALE, DSN_TO_MM_SCALE),
+    )
+
+    // Padstack shape coordinates (relative to the pin) -> board mm
+    const padShapeMatrix = getDsnPinShapeMatrix(imageMatrix, {
+      x: pinX,
+      y: pinY,
+      rotation: pin.rotation ?? 0,
+    })
+    const padPosition = applyToPoint(padShapeMatrix, { x: 0, y: 0 })
 
     // Get the source_component_id for this component
     const sourceComponentId = this.ctx.sourceComponentRefToId?.get(componentRef)
@@ -177,90 +201,40 @@ export class CollectPadsStage extends DsnToCircuitJsonConverterStage {
 
     let pcbSmtpadId: string | undefined
     let pcbPlatedHoleId: string | undefined
-
-    // Create pad based on shape
-    if (padstackInfo.shape === "circle") {
-      const diameter = (padstackInfo.diameter ?? 1000) * DSN_TO_MM_SCALE
-
-      // Check if this is a through-hole (has "hole" in padstack name or is a via)
-      if (
-        padstackId.toLowerCase().includes("hole") ||
-        padstackId.toLowerCase().includes("through")
-      ) {
-        const platedHole = this.ctx.db.pcb_plated_hole.insert({
-          pcb_component_id: componentId,
-          x: padPosition.x,
-          y: padPosition.y,
-          shape: "circle",
-          outer_diameter: diameter,
-          hole_diameter: diameter * 0.5, // Estimate hole size
-          layers: ["top", "bottom"],
-          port_hints: [pinId],
-        } as any)
-        pcbPlatedHoleId = platedHole.pcb_plated_hole_id
-      } else {
-        const smtpad = this.ctx.db.pcb_smtpad.insert({
-          pcb_component_id: componentId,
-          x: padPosition.x,
-          y: padPosition.y,
-          shape: "circle",
-          radius: diameter / 2,
+    let portLayers: LayerRef[] = []
+
+    if (padstackInfo.isThroughHole) {
+      pcbPlatedHoleId = this.createPlatedHole(
+        padstackId,
+        padstackInfo,
+        componentId,
+        pinId,
+        padShapeMatrix,
+      )
+      portLayers = [...this.ctx.layerTable!.layerRefs]
+    } else {
+      // One pad per layer the padstack has copper on, the port uses the
+      // first one
+      for (const shape of padstackInfo.shapes) {
+        const layer = this.mapLayer(shape.layer, componentLayer)
+        const smtpadId = this.createSmtpad(
+          shape,
           layer,
-          port_hints: [pinId],
-        } as any)
-        pcbSmtpadId = smtpad.pcb_smtpad_id
-      }
-    } else if (padstackInfo.shape === "rect") {
-      const width = (padstackInfo.width ?? 1000) * DSN_TO_MM_SCALE
-      const height = (padstackInfo.height ?? 1000) * DSN_TO_MM_SCALE
-
-      const smtpad = this.ctx.db.pcb_smtpad.insert({
-        pcb_component_id: componentId,
-        x: padPosition.x,
-        y: padPosition.y,
-        shape: "rect",
-        width,
-        height,
-        layer,
-        port_hints: [pinId],
-      } as any)
-      pcbSmtpadId = smtpad.pcb_smtpad_id
-    } else if (padstackInfo.shape === "polygon") {
-      // For polygon pads, calculate bounding box and use rect approximation
-      const coords = padstackInfo.coordinates || []
-
-      if (coords.length >= 4) {
-        let minX = Infinity
-        let maxX = -Infinity
-        let minY = Infinity
-        let maxY = -Infinity
-
-        for (let i = 0; i < coords.length; i += 2) {
-          if (coords[i] !== undefined && coords[i + 1] !== undefined) {
-            minX = Math.min(minX, coords[i]!)
-            maxX = Math.max(maxX, coords[i]!)
-            minY = Math.min(minY, coords[i + 1]!)
-            maxY = Math.max(maxY, coords[i + 1]!)
-          }
+          componentId,
+          pinId,
+          padShapeMatrix,
+        )
+        if (smtpadId && !pcbSmtpadId) {
+          pcbSmtpadId = smtpadId
+          portLayers = [layer]
         }
-
-        const width = Math.abs(maxX - minX) * DSN_TO_MM_SCALE
-        const height = Math.abs(maxY - minY) * DSN_TO_MM_SCALE
-
-        const smtpad = this.ctx.db.pcb_smtpad.insert({
-          pcb_component_id: componentId,
-          x: padPosition.x,
-          y: padPosition.y,
-          shape: "rect",
-          width: width || 0.1,
-          height: height || 0.1,
-          layer,
-          port_hints: [pinId],
-        } as any)
-        pcbSmtpadId = smtpad.pcb_smtpad_id
       }
     }
 
+    if (portLayers.length === 0) {
+      portLayers = [this.mapLayer(undefined, componentLayer)]
+    }
+
     // Create pcb_port for net connectivity
     const pinRef = `${componentRef}-${pinId}`
     const pcbPort = this.ctx.db.pcb_port.insert({
@@ -270,10 +244,284 @@ export class CollectPadsStage extends DsnToCircuitJsonConverterStage {
       pcb_plated_hole_id: pcbPlatedHoleId,
       x: padPosition.x,
       y: padPosition.y,
-      layers: [layer],
+      layers: portLayers,
     } as any)
 
     this.ctx.pinRefToPortId!.set(pinRef, pcbPort.pcb_port_id)
+
+    const pinPorts =
+      this.ctx.pinPortsByComponentRef!.get(componentRef) ?? new Map()
+    pinPorts.set(pinId, {
+      sourcePortId: sourcePort.source_port_id,
+      pcbPortId: pcbPort.pcb_port_id,
+    })
+    this.ctx.pinPortsByComponentRef!.set(componentRef, pinPorts)
+  }
+
+  /**
+   * Creates a pcb_smtpad for one padstack shape and returns its id.
+   *
+   * Circles and rects may be offset from the pin, path shapes become pills
+   * between their first two points and polygons keep their outline. Rects
+   * and pills swap width and height on quarter turns and become rotated
+   * shapes on other angles.
+   */
+  private createSmtpad(
+    shape: DsnPadstackShape,
+    layer: LayerRef,
+    componentId: string,
+    pinId: string,
+    padShapeMatrix: Matrix,
+  ): string | undefined {
+    const DSN_TO_MM_SCALE = this.ctx.dsnLibraryToMmScale!
+    const rotation = getMatrixRotationDegrees(padShapeMatrix)
+    const padBase = {
+      pcb_component_id: componentId,
+      layer,
+      port_hints: [pinId],
+    }
+
+    if (shape.shape === "circle") {
+      return this.ctx.db.pcb_smtpad.insert({
+        ...padBase,
+        ...applyToPoint(padShapeMatrix, shape.offset),
+        shape: "circle",
+        radius: (shape.diameter * DSN_TO_MM_SCALE) / 2,
+      } as any).pcb_smtpad_id
+    }
+
+    if (shape.shape === "rect") {
+      const width = shape.width * DSN_TO_MM_SCALE
+      const height = shape.height * DSN_TO_MM_SCALE
+      const position = applyToPoint(padShapeMatrix, shape.offset)
+
+      if (rotation % 90 !== 0) {
+        return this.ctx.db.pcb_smtpad.insert({
+          ...padBase,
+          ...position,
+          shape: "rotated_rect",
+          width,
+          height,
+          ccw_rotation: rotation,
+        } as any).pcb_smtpad_id
+      }
+
+      const isQuarterTurn = rotation % 180 !== 0
+      return this.ctx.db.pcb_smtpad.insert({
+        ...padBase,
+        ...position,
+        shape: "rect",
+        width: isQuarterTurn ? height : width,
+        height: isQuarterTurn ? width : height,
+      } as any).pcb_smtpad_id
+    }
+
+    if (shape.shape === "path") {
+      const pill = this.getPathPill(shape, padShapeMatrix)
+      const width = shape.width * DSN_TO_MM_SCALE
+
+      if (pill.length === 0) {
+        return this.ctx.db.pcb_smtpad.insert({
+          ...padBase,
+          ...pill.center,
+          shape: "circle",
+          radius: width / 2,
+        } as any).pcb_smtpad_id
+      }
+
+      if (pill.angle === 0 || pill.angle === 90) {
+        const isVertical = pill.angle === 90
+        return this.ctx.db.pcb_smtpad.insert({
+          ...padBase,
+          ...pill.center,
+          shape: "pill",
+          width: isVertical ? width : pill.length + width,
+          height: isVertical ? pill.length + width : width,
+          radius: width / 2,
+        } as any).pcb_smtpad_id
+      }
+
+      return this.ctx.db.pcb_smtpad.insert({
+        ...padBase,
+        ...pill.center,
+        shape: "rotated_pill",
+        width: pill.length + width,
+        height: width,
+        radius: width / 2,
+        ccw_rotation: pill.angle,
+      } as any).pcb_smtpad_id
+    }
+
+    const points: Array<{ x: number; y: number }> = []
+    for (let i = 0; i + 1 < shape.coordinates.length; i += 2) {
+      points.push(
+        applyToPoint(padShapeMatrix, {
+          x: shape.coordinates[i]!,
+          y: shape.coordinates[i + 1]!,
+        }),
+      )
+    }
+
+    // DSN polygons repeat the first point to close the outline
+    const first = points[0]
+    const last = points[points.length - 1]
+    if (
+      points.length > 1 &&
+      Math.abs(first!.x - last!.x) < 1e-9 &&
+      Math.abs(first!.y - last!.y) < 1e-9
+    ) {
+      points.pop()
+    }
+    if (points.length < 3) return undefined
+
+    return this.ctx.db.pcb_smtpad.insert({
+      ...padBase,
+      shape: "polygon",
+      points,
+    } as any).pcb_smtpad_id
+  }
+
+  /**
+   * Creates a pcb_plated_hole for a through-hole padstack and returns its id.
+   *
+   * The pad shape comes from the first padstack shape: circles become circle
+   * holes, paths become pill pads and rects/polygons become rect pads, all
+   * around a round hole. DSN has no slot syntax, so oval pads get a round
+   * hole too. Holes without a size in the padstack name are estimated at half
+   * the pad size and reported.
+   */
+  private createPlatedHole(
+    padstackId: string,
+    padstackInfo: DsnPadstackInfo,
+    componentId: string,
+    pinId: string,
+    padShapeMatrix: Matrix,
+  ): string | undefined {
+    const DSN_TO_MM_SCALE = this.ctx.dsnLibraryToMmScale!
+    const shape = padstackInfo.shapes[0]
+    if (!shape) return undefined
+
+    const minPadSize = getPadstackShapeMinSize(shape) * DSN_TO_MM_SCALE
+    const holeDiameter = padstackInfo.holeDiameter ?? minPadSize * 0.5
+    if (padstackInfo.holeDiameter === undefined) {
+      this.reportEstimatedHoleDiameter(padstackId, holeDiameter)
+    }
+    const holeBase = {
+      pcb_component_id: componentId,
+      ...applyToPoint(padShapeMatrix, { x: 0, y: 0 }),
+      layers: [...this.ctx.layerTable!.layerRefs],
+      port_hints: [pinId],
+    }
+
+    if (shape.shape === "circle") {
+      return this.ctx.db.pcb_plated_hole.insert({
+        ...holeBase,
+        ...applyToPoint(padShapeMatrix, shape.offset),
+        shape: "circle",
+        outer_diameter: shape.diameter * DSN_TO_MM_SCALE,
+        hole_diameter: holeDiameter,
+      } as any).pcb_plated_hole_id
+    }
+
+    if (shape.shape === "path") {
+      const pill = this.getPathPill(shape, padShapeMatrix)
+      const width = shape.width * DSN_TO_MM_SCALE
+
+      if (pill.length === 0) {
+        return this.ctx.db.pcb_plated_hole.insert({
+          ...holeBase,
+          ...pill.center,
+          shape: "circle",
+          outer_diameter: width,
+          hole_diameter: holeDiameter,
+        } as any).pcb_plated_hole_id
+      }
+
+      const isVertical = pill.angle === 90
+      const isAxisAligned = pill.angle === 0 || isVertical
+
+      return this.ctx.db.pcb_plated_hole.insert({
+        ...holeBase,
+        ...pill.center,
+        shape: "pill",
+        outer_width: isVertical ? width : pill.length + width,
+        outer_height: isVertical ? pill.length + width : width,
+        hole_width: holeDiameter,
+        hole_height: holeDiameter,
+        ccw_rotation: isAxisAligned ? 0 : pill.angle,
+      } as any).pcb_plated_hole_id
+    }
+
+    // circuit-json rect pads around a hole can't rotate, only quarter turns
+    // are kept
+    const padSize =
+      shape.shape === "rect"
+        ? { width: shape.width, height: shape.height }
+        : getCoordinatesBoundsSize(shape.coordinates)
+    const isQuarterTurn =
+      Math.round(getMatrixRotationDegrees(padShapeMatrix) / 90) % 2 === 1
+
+    return this.ctx.db.pcb_plated_hole.insert({
+      ...holeBase,
+      ...(shape.shape === "rect" && applyToPoint(padShapeMatrix, shape.offset)),
+      shape: "circular_hole_with_rect_pad",
+      hole_shape: "circle",
+      pad_shape: "rect",
+      hole_diameter: holeDiameter,
+      rect_pad_width:
+        (isQuarterTurn ? padSize.height : padSize.width) * DSN_TO_MM_SCALE,
+      rect_pad_height:
+        (isQuarterTurn ? padSize.width : padSize.height) * DSN_TO_MM_SCALE,
+      hole_offset_x: 0,
+      hole_offset_y: 0,
+    } as any).pcb_plated_hole_id
+  }
+
+  /**
+   * Specctra has no drill syntax, report each padstack whose hole size had to
+   * be estimated once
+   */
+  private reportEstimatedHoleDiameter(
+    padstackId: string,
+    holeDiameter: number,
+  ): void {
+    if (this.estimatedHolePadstackIds.has(padstackId)) return
+    this.estimatedHolePadstackIds.add(padstackId)
+    this.addDiagnostic({
+      code: "estimated_hole_diameter",
+      severity: "warning",
+      sourcePath: `library/padstack ${padstackId}`,
+      token: "padstack",
+      message: `Padstack "${padstackId}" doesn't give its drill size, holes were estimated at ${Number(holeDiameter.toFixed(4))}mm`,
+    })
+  }
+
+  /**
+   * Returns the center and length (board mm) and the angle (0-180 degrees)
+   * of the segment between the first two points of a path
+   */
+  private getPathPill(
+    shape: { coordinates: number[] },
+    padShapeMatrix: Matrix,
+  ): {
+    center: { x: number; y: number }
+    length: number
+    angle: number
+  } {
+    const [x1 = 0, y1 = 0, x2 = x1, y2 = y1] = shape.coordinates
+    const start = applyToPoint(padShapeMatrix, { x: x1, y: y1 })
+    const end = applyToPoint(padShapeMatrix, { x: x2, y: y2 })
+    const dx = end.x - start.x
+    const dy = end.y - start.y
+    const angle =
+      Math.round(
+        (((((Math.atan2(dy, dx) * 180) / Math.PI) % 180) + 180) % 180) * 1e9,
+      ) / 1e9
+    return {
+      center: { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 },
+      length: Math.sqrt(dx * dx + dy * dy),
+      angle: angle === 180 ? 0 : angle,
+    }
   }
 
   /**
@@ -292,22 +540,18 @@ export class CollectPadsStage extends DsnToCircuitJsonConverterStage {
   }
 
   /**
-   * Maps DSN layer name to Circuit JSON layer.
+   * Maps DSN layer name to Circuit JSON layer using the layer table.
+   * Images describe the component as placed on the front, so the outer
+   * layers swap for back side components.
    */
   private mapLayer(
-    dsnLayer: string | undefined,
+    dsnLayer: string | number | undefined,
     componentLayer: string,
-  ): "top" | "bottom" {
-    if (!dsnLayer) return componentLayer as "top" | "bottom"
-
-    const layerLower = dsnLayer.toLowerCase()
-    if (
-      layerLower.includes("b.cu") ||
-      layerLower.includes("bottom") ||
-      layerLower.includes("back")
-    ) {
-      return "bottom"
-    }
-    return "top"
+  ): LayerRef {
+    const layer = mapDsnLayerToLayerRef(dsnLayer, this.ctx.layerTable!)
+    if (componentLayer !== "bottom") return layer
+    if (layer === "top") return "bottom"
+    if (layer === "bottom") return "top"
+    return layer
   }
 }
@@ -0,0 +1,154 @@
+import { DsnToCircuitJsonConverterStage } from "../types"
+import { applyToPoint } from "transformation-matrix"
+import { DsnPlane } from "dsnts"
+import type { LayerRef, PcbCopperPour } from "circuit-json"
+import { mapDsnLayerToLayerRef } from "../../utils"
+
+/**
+ * CollectPlanesStage creates pcb_copper_pour elements from DSN planes and
+ * power layers.
+ *
+ * DSN Structure Section:
+ * (structure
+ *   (layer F.Cu (type signal))
+ *   (layer GND (type power))
+ *   (layer B.Cu (type signal))
+ *   (plane GND (polygon GND 0 x1 y1 x2 y2 ...))
+ * )
+ *
+ * This stage:
+ * 1. Creates a polygon pcb_copper_pour for each (plane ...), on the layer of
+ *    its polygon and bound to the plane's source_net
+ * 2. Creates a pour covering the board outline for every (type power) layer
+ *    without a plane, bound to the net named like the layer. Power layers
+ *    without such a net get no pour and a diagnostic.
+ *
+ * Power layers are usually inner layers, they're mapped through the layer
+ * table like any other layer (e.g. the GND layer above is "inner1").
+ */
+export class CollectPlanesStage extends DsnToCircuitJsonConverterStage {
+  step(): boolean {
+    const { specctraDsn: spectraDsn, layerTable } = this.ctx
+
+    const structure = spectraDsn.structure
+    if (!structure) {
+      this.finished = true
+      return false
+    }
+
+    const planes = [
+      ...structure.otherChildren,
+      ...(spectraDsn.wiring?.otherChildren ?? []),
+    ].filter((child): child is DsnPlane => child instanceof DsnPlane)
+
+    const layersWithPour = new Set<LayerRef>()
+    for (const plane of planes) {
+      const layer = this.createPlanePour(plane)
+      if (layer) layersWithPour.add(layer)
+    }
+
+    for (const dsnLayer of structure.layers) {
+      if (dsnLayer.type?.toLowerCase() !== "power" || !dsnLayer.layerName) {
+        continue
+      }
+      const layer = mapDsnLayerToLayerRef(dsnLayer.layerName, layerTable!)
+      if (layersWithPour.has(layer)) continue
+
+      this.createPowerLayerPour(dsnLayer.layerName, layer)
+    }
+
+    this.finished = true
+    return false
+  }
+
+  /**
+   * Creates a polygon copper pour from a (plane <net> (polygon ...)).
+   * Returns the layer of the pour.
+   */
+  private createPlanePour(plane: DsnPlane): LayerRef | undefined {
+    const { dsnToCircuitJsonTransformMatrix, layerTable } = this.ctx
+    const polygon = plane.polygon
+    if (!polygon) {
+      this.addDiagnostic({
+        code: "plane_without_polygon",
+        severity: "error",
+        sourcePath: `plane ${plane.netName ?? ""}`.trimEnd(),
+        token: plane.token,
+        message: `Plane ${plane.netName ?? "(no net)"} has no polygon and was ignored`,
+      })
+      return undefined
+    }
+
+    const coords = polygon.coordinates
+    const points: Array<{ x: number; y: number }> = []
+    for (let i = 0; i + 1 < coords.length; i += 2) {
+      points.push(
+        applyToPoint(dsnToCircuitJsonTransformMatrix!, {
+          x: coords[i]!,
+          y: coords[i + 1]!,
+        }),
+      )
+    }
+    if (points.length < 3) return undefined
+
+    const layer = mapDsnLayerToLayerRef(polygon.layer, layerTable!)
+
+    this.ctx.db.pcb_copper_pour.insert({
+      shape: "polygon",
+      layer,
+      points,
+      source_net_id: plane.netName
+        ? this.ctx.netNameToId?.get(plane.netName)
+        : undefined,
+      covered_with_solder_mask: layer === "top" || layer === "bottom",
+    } as PcbCopperPour)
+
+    return layer
+  }
+
+  /**
+   * Creates a copper pour covering the whole board for a power layer that
+   * has no plane, when a net is named like the layer
+   */
+  private createPowerLayerPour(layerName: string, layer: LayerRef): void {
+    const source_net_id = this.ctx.netNameToId?.get(layerName)
+    if (!source_net_id) {
+      this.addDiagnostic({
+        code: "power_layer_without_net",
+        severity: "warning",
+        sourcePath: `structure/layer ${layerName}`,
+        token: "layer",
+        message: `Power layer ${layerName} has no plane and no net of the same name, no copper pour was created`,
+      })
+      return
+    }
+
+    const board = this.ctx.db.pcb_board.list()[0]
+    if (!board) return
+
+    const covered_with_solder_mask = layer === "top" || layer === "bottom"
+
+    if (board.outline && board.outline.length >= 3) {
+      this.ctx.db.pcb_copper_pour.insert({
+        shape: "polygon",
+        layer,
+        points: board.outline,
+        source_net_id,
+        covered_with_solder_mask,
+      } as PcbCopperPour)
+      return
+    }
+
+    if (board.width === undefined || board.height === undefined) return
+
+    this.ctx.db.pcb_copper_pour.insert({
+      shape: "rect",
+      layer,
+      center: board.center,
+      width: board.width,
+      height: board.height,
+      source_net_id,
+      covered_with_solder_mask,
+    } as PcbCopperPour)
+  }
+}
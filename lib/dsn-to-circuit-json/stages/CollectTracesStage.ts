@@ -1,6 +1,24 @@
 import type { LayerRef, PcbTrace, PcbTraceRoutePointVia } from "circuit-json"
 import { DsnToCircuitJsonConverterStage } from "../types"
 import { applyToPoint } from "transformation-matrix"
+import { DsnPlane } from "dsnts"
+import {
+  getUnitToMmScale,
+  getViaLayerRefs,
+  mapDsnLayerToLayerRef,
+} from "../../utils"
+
+// Wire children that are converted, or that don't change the copper
+// (clearance_class, attr and shield only matter to the router)
+const SUPPORTED_WIRE_CHILD_TOKENS = new Set([
+  "path",
+  "polyline_path",
+  "net",
+  "type",
+  "clearance_class",
+  "attr",
+  "shield",
+])
 
 /**
  * CollectTracesStage creates pcb_trace and pcb_via elements from DSN wiring section.
@@ -68,6 +86,18 @@ export class CollectTracesStage extends DsnToCircuitJsonConverterStage {
       this.processVia(via, dsnToCircuitJsonTransformMatrix)
     }
 
+    // Planes are converted by CollectPlanesStage
+    for (const child of wiring.otherChildren ?? []) {
+      if (child instanceof DsnPlane) continue
+      this.addDiagnostic({
+        code: "unsupported_wiring_element",
+        severity: "error",
+        sourcePath: `wiring/${child.token}`,
+        token: child.token,
+        message: `Unsupported wiring element (${child.token} ...) was ignored`,
+      })
+    }
+
     this.finished = true
     return false
   }
@@ -88,11 +118,12 @@ export class CollectTracesStage extends DsnToCircuitJsonConverterStage {
       this.viasByNet.set(netName, [])
     }
 
+    const layers = this.getViaLayers(via)
     this.viasByNet.get(netName)!.push({
       x: Number(transformed.x.toFixed(4)),
       y: Number(transformed.y.toFixed(4)),
-      fromLayer: "top",
-      toLayer: "bottom",
+      fromLayer: layers[0]!,
+      toLayer: layers[layers.length - 1]!,
     })
   }
 
@@ -110,6 +141,17 @@ export class CollectTracesStage extends DsnToCircuitJsonConverterStage {
       return
     }
 
+    for (const child of wire.otherChildren || []) {
+      if (SUPPORTED_WIRE_CHILD_TOKENS.has(child.token)) continue
+      this.addDiagnostic({
+        code: "unsupported_wire_child",
+        severity: "warning",
+        sourcePath: `wiring/wire/${child.token}`,
+        token: child.token,
+        message: `Unsupported (${child.token} ...) in a wire was ignored`,
+      })
+    }
+
     // Get the source_trace_id for this net
     const sourceTraceId = netName
       ? this.ctx.netNameToSourceTraceId?.get(netName)
@@ -155,7 +197,10 @@ export class CollectTracesStage extends DsnToCircuitJsonConverterStage {
     transformMatrix: any,
   ): void {
     const layer = this.mapLayer(path.layer)
-    const width = (path.width ?? 200) / 1000 // Convert from μm to mm
+    const width =
+      path.width !== undefined
+        ? path.width * this.ctx.dsnToMmScale! // Convert to mm
+        : this.ctx.defaultTraceWidth
 
     const coords = path.coordinates || []
     const route: PcbTrace["route"] = []
@@ -210,7 +255,10 @@ export class CollectTracesStage extends DsnToCircuitJsonConverterStage {
     transformMatrix: any,
   ): void {
     const layer = this.mapLayer(polylinePath.layer)
-    const width = (polylinePath.width ?? 200) / 1000 // Convert from μm to mm
+    const width =
+      polylinePath.width !== undefined
+        ? polylinePath.width * this.ctx.dsnToMmScale! // Convert to mm
+        : this.ctx.defaultTraceWidth
 
     const coords = polylinePath.coordinates || []
 
@@ -368,10 +416,13 @@ export class CollectTracesStage extends DsnToCircuitJsonConverterStage {
     // Try to parse via dimensions from padstack name
     // Format: "Via[0-1]_600:300_um" -> outer=600μm, hole=300μm
     const padstackName = via.padstackName || via.padstackId || ""
-    const match = padstackName.match(/(\d+):(\d+)/)
+    const match = padstackName.match(/(\d+):(\d+)(?:_([a-z]+))?/i)
     if (match) {
-      outerDiameter = parseInt(match[1]!, 10) / 1000 // Convert to mm
-      holeDiameter = parseInt(match[2]!, 10) / 1000
+      const nameUnitToMm = match[3]
+        ? getUnitToMmScale(match[3])
+        : this.ctx.dsnLibraryToMmScale!
+      outerDiameter = parseInt(match[1]!, 10) * nameUnitToMm // Convert to mm
+      holeDiameter = parseInt(match[2]!, 10) * nameUnitToMm
     }
 
     // Transform coordinates
@@ -389,7 +440,7 @@ export class CollectTracesStage extends DsnToCircuitJsonConverterStage {
       y: Number(transformed.y.toFixed(4)),
       outer_diameter: outerDiameter,
       hole_diameter: holeDiameter,
-      layers: ["top", "bottom"],
+      layers: this.getViaLayers(via),
     }
 
     if (sourceTraceId) {
@@ -469,19 +520,23 @@ export class CollectTracesStage extends DsnToCircuitJsonConverterStage {
   }
 
   /**
-   * Maps DSN layer name to Circuit JSON layer.
+   * Maps DSN layer name to Circuit JSON layer using the layer table.
    */
-  private mapLayer(dsnLayer: string | undefined): "top" | "bottom" {
-    if (!dsnLayer) return "top"
-
-    const layerLower = dsnLayer.toLowerCase()
-    if (
-      layerLower.includes("b.cu") ||
-      layerLower.includes("bottom") ||
-      layerLower.includes("back")
-    ) {
-      return "bottom"
-    }
-    return "top"
+  private mapLayer(dsnLayer: string | undefined): LayerRef {
+    return mapDsnLayerToLayerRef(dsnLayer, this.ctx.layerTable!)
+  }
+
+  /**
+   * Returns the layers spanned by a via, in stackup order
+   */
+  private getViaLayers(via: any): LayerRef[] {
+    const padstackId = via.padstackName || via.padstackId
+    const padstack = this.ctx.specctraDsn.library?.padstacks.find(
+      (padstack) => padstack.padstackId === padstackId,
+    )
+    const shapeLayers = (padstack?.shapes ?? []).flatMap((shape) =>
+      (shape.otherChildren ?? []).map((child) => (child as any).layer),
+    )
+    return getViaLayerRefs(padstackId, shapeLayers, this.ctx.layerTable!)
   }
 }
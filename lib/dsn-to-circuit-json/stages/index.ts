@@ -3,4 +3,6 @@ export { CollectBoardInfoStage } from "./CollectBoardInfoStage"
 export { CollectComponentsStage } from "./CollectComponentsStage"
 export { CollectPadsStage } from "./CollectPadsStage"
 export { CollectNetsStage } from "./CollectNetsStage"
+export { CollectPlanesStage } from "./CollectPlanesStage"
+export { CollectKeepoutsStage } from "./CollectKeepoutsStage"
 export { CollectTracesStage } from "./CollectTracesStage"
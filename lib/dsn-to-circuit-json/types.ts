@@ -1,7 +1,131 @@
 import type { CircuitJsonUtilObjects } from "@tscircuit/circuit-json-util"
-import type { CircuitJson } from "circuit-json"
+import type { CircuitJson, LayerRef, PcbComponent } from "circuit-json"
 import type { SpectraDsn } from "dsnts"
 import type { Matrix } from "transformation-matrix"
+import {
+  getUnresolvedReferenceError,
+  type ConverterDiagnostic,
+  type DsnLayerTable,
+  type DsnOrigin,
+  type DsnPadstackInfo,
+  type YOrientation,
+} from "../utils"
+
+/**
+ * Groups of elements DsnToCircuitJsonConverter creates, one per stage:
+ * - board: pcb_board
+ * - components: source_component, pcb_component
+ * - pads: pcb_smtpad, pcb_plated_hole, source_port, pcb_port (needs
+ *   components)
+ * - nets: source_net, source_trace
+ * - planes: pcb_copper_pour (power layers without a plane need the board)
+ * - keepouts: pcb_keepout (image keepouts need components)
+ * - traces: pcb_trace, pcb_via from the wiring section
+ */
+export type DsnElementCategory =
+  | "board"
+  | "components"
+  | "pads"
+  | "nets"
+  | "planes"
+  | "keepouts"
+  | "traces"
+
+/**
+ * Options for DsnToCircuitJsonConverter
+ */
+export interface DsnToCircuitJsonConverterOptions {
+  /**
+   * How DSN Y coordinates map to circuit-json Y. Defaults to "preserve",
+   * which keeps the handedness the board has in KiCad.
+   */
+  yOrientation?: YOrientation
+
+  /**
+   * Where the DSN board lands in circuit-json. Defaults to "center", the
+   * board boundary centered at the origin.
+   */
+  origin?: DsnOrigin
+
+  /**
+   * pcb_board thickness in mm. Defaults to 1.4.
+   */
+  boardThickness?: number
+
+  /**
+   * Width in mm of wires that don't declare one. Defaults to 0.2.
+   */
+  defaultTraceWidth?: number
+
+  /**
+   * Size in mm of pads whose padstack shape has no size (or no shape at
+   * all). Defaults to 1.
+   */
+  defaultPadSize?: number
+
+  /**
+   * ftype of the created source_components. Defaults to "simple_chip".
+   */
+  defaultComponentFtype?: string
+
+  /**
+   * Overrides the circuit-json layer of DSN layer names, e.g.
+   * { GND: "inner2" }. Other layers map by stackup order.
+   */
+  layerMapping?: Record<string, LayerRef>
+
+  /**
+   * Element categories to create, all of them by default. e.g.
+   * { traces: false } converts a routed DSN without its routes.
+   */
+  emit?: Partial<Record<DsnElementCategory, boolean>>
+
+  /**
+   * Throw an UnresolvedReferenceError (e.g. UnknownPadstackError) when the
+   * DSN references an image, padstack or component that doesn't exist,
+   * instead of skipping it. Defaults to false.
+   */
+  strict?: boolean
+}
+
+/**
+ * Design rules of a DSN net, see DsnToCircuitJsonConverter.getNetDesignRules.
+ * Lengths are in mm. circuit-json only has a place for the trace width,
+ * which is also set on the source_net (trace_width) and source_trace
+ * (min_trace_thickness).
+ */
+export interface DsnNetDesignRules {
+  /**
+   * Name of the (class ...) the net belongs to
+   */
+  netClass?: string
+
+  /**
+   * Trace width from the net, class or structure (rule (width ...))
+   */
+  traceWidth?: number
+
+  /**
+   * Clearance from the net, class or structure (rule (clearance ...))
+   */
+  clearance?: number
+
+  /**
+   * Via padstack of the class (circuit (use_via ...)), or the first
+   * structure (via ...)
+   */
+  viaPadstackId?: string
+
+  /**
+   * Outer diameter of the via padstack
+   */
+  viaDiameter?: number
+
+  /**
+   * Drill diameter of the via padstack, when its name carries it
+   */
+  viaHoleDiameter?: number
+}
 
 /**
  * Context object shared between all converter stages.
@@ -19,13 +143,60 @@ export interface ConverterContext {
    */
   db: CircuitJsonUtilObjects
 
+  /**
+   * Problems found during the conversion, in the order they were found
+   */
+  diagnostics: ConverterDiagnostic[]
+
+  /**
+   * Throw on unresolved references instead of recording a diagnostic
+   */
+  strict: boolean
+
   /**
    * Transformation matrix from DSN coordinates to Circuit JSON coordinates.
-   * DSN uses micrometers (μm), Circuit JSON uses millimeters (mm).
-   * Also handles coordinate system differences (DSN Y-axis may be inverted).
+   * Scales DSN units (see dsnToMmScale) to millimeters (mm), moves the
+   * origin (see origin) and applies the yOrientation.
    */
   dsnToCircuitJsonTransformMatrix?: Matrix
 
+  /**
+   * How DSN Y coordinates map to circuit-json Y. Placements, pads and
+   * keepouts of components follow it through getDsnPlacementMatrix.
+   */
+  yOrientation: YOrientation
+
+  /**
+   * Where the DSN board lands in circuit-json
+   */
+  origin: DsnOrigin
+
+  /**
+   * pcb_board thickness in mm
+   */
+  boardThickness: number
+
+  /**
+   * Width in mm of wires that don't declare one
+   */
+  defaultTraceWidth: number
+
+  /**
+   * Size in mm of pads whose padstack shape has no size
+   */
+  defaultPadSize: number
+
+  /**
+   * ftype of the created source_components
+   */
+  defaultComponentFtype: string
+
+  /**
+   * Overrides of the circuit-json layer of DSN layer names, applied to the
+   * layerTable
+   */
+  layerMapping: Record<string, LayerRef>
+
   /**
    * The resolution/scale factor from DSN file.
    * Typically the value from (resolution um 10) means 1 design unit = 10 μm.
@@ -33,10 +204,30 @@ export interface ConverterContext {
   dsnResolutionValue?: number
 
   /**
-   * The unit from DSN file (e.g., "um", "mil", "mm")
+   * The unit DSN board coordinates are expressed in (e.g., "um", "mil",
+   * "mm"). A (unit ...) inside structure overrides the resolution unit.
    */
   dsnUnit?: string
 
+  /**
+   * Millimeters per DSN unit. Use this for lengths that don't go through
+   * dsnToCircuitJsonTransformMatrix (wire widths, rule lengths).
+   */
+  dsnToMmScale?: number
+
+  /**
+   * Millimeters per DSN library unit, for image and padstack geometry (pin
+   * positions, pad sizes, image keepouts). Differs from dsnToMmScale when
+   * the library declares its own (unit ...).
+   */
+  dsnLibraryToMmScale?: number
+
+  /**
+   * DSN structure layers in stackup order, mapped to circuit-json layers
+   * (top, inner1..innerN, bottom)
+   */
+  layerTable?: DsnLayerTable
+
   /**
    * Maps DSN image ID (footprint name) to pcb_component_ids that use it.
    * Populated by CollectComponentsStage, used by CollectPadsStage.
@@ -50,20 +241,22 @@ export interface ConverterContext {
   componentRefToId?: Map<string, string>
 
   /**
-   * Maps DSN padstack ID to pad shape information.
-   * Used to look up pad dimensions when creating pads.
+   * Maps pcb_component_id to DSN component reference, the reverse of
+   * componentRefToId
    */
-  padstackIdToInfo?: Map<
-    string,
-    {
-      shape: "circle" | "rect" | "polygon"
-      diameter?: number
-      width?: number
-      height?: number
-      layer?: string
-      coordinates?: number[]
-    }
-  >
+  componentIdToRef?: Map<string, string>
+
+  /**
+   * Maps pcb_component_id to the pcb_component inserted by
+   * CollectComponentsStage, so stages don't scan the database for it
+   */
+  pcbComponentById?: Map<string, PcbComponent>
+
+  /**
+   * Maps DSN padstack ID to its shapes on every layer.
+   * Used to look up pad dimensions and hole info when creating pads.
+   */
+  padstackIdToInfo?: Map<string, DsnPadstackInfo>
 
   /**
    * Maps DSN net name to source_net_id.
@@ -71,12 +264,29 @@ export interface ConverterContext {
    */
   netNameToId?: Map<string, string>
 
+  /**
+   * Maps DSN net name to its design rules.
+   * Populated by CollectNetsStage.
+   */
+  netNameToDesignRules?: Map<string, DsnNetDesignRules>
+
   /**
    * Maps component-pin reference to pcb_port_id.
    * Format: "componentRef-pinId" -> "pcb_port_id"
    */
   pinRefToPortId?: Map<string, string>
 
+  /**
+   * Maps DSN component reference, then pin id, to the ports of the pin.
+   * Refs and pin ids may contain dashes, so unlike pinRefToPortId this
+   * can't be ambiguous. Used to resolve net pin references (see
+   * resolveDsnPinRef).
+   */
+  pinPortsByComponentRef?: Map<
+    string,
+    Map<string, { sourcePortId: string; pcbPortId: string }>
+  >
+
   /**
    * Maps DSN component reference to source_component_id.
    * Format: "componentRef" -> "source_component_id"
@@ -105,6 +315,18 @@ export abstract class DsnToCircuitJsonConverterStage {
     this.ctx = ctx
   }
 
+  /**
+   * Records something this stage couldn't convert. In strict mode,
+   * unresolved references are thrown instead.
+   */
+  protected addDiagnostic(diagnostic: ConverterDiagnostic): void {
+    if (this.ctx.strict) {
+      const error = getUnresolvedReferenceError(diagnostic)
+      if (error) throw error
+    }
+    this.ctx.diagnostics.push(diagnostic)
+  }
+
   /**
    * Execute one step of the conversion stage.
    * Returns true if the stage needs more iterations, false if complete.
@@ -1,2 +1,34 @@
-export { SesToCircuitJsonConverter } from "./ses-to-circuit-json/SesToCircuitJsonConverter"
-export { DsnToCircuitJsonConverter } from "./dsn-to-circuit-json/DsnToCircuitJsonConverter"
+export {
+  DsnToCircuitJsonConverter,
+  convertDsnToCircuitJson,
+} from "./dsn-to-circuit-json/DsnToCircuitJsonConverter"
+export type {
+  ConverterContext,
+  DsnElementCategory,
+  DsnNetDesignRules,
+  DsnToCircuitJsonConverterOptions,
+} from "./dsn-to-circuit-json/types"
+export {
+  SesToCircuitJsonConverter,
+  convertSesToCircuitJson,
+} from "./ses-to-circuit-json/SesToCircuitJsonConverter"
+export { convertDsnAndSesToCircuitJson } from "./convertDsnAndSesToCircuitJson"
+export type {
+  SesConverterContext,
+  SesToCircuitJsonConverterOptions,
+} from "./ses-to-circuit-json/types"
+export {
+  UnresolvedReferenceError,
+  UnknownImageError,
+  UnknownPadstackError,
+  UnresolvedPinRefError,
+  UnknownComponentError,
+  UnknownNetError,
+} from "./utils"
+export type {
+  ConverterDiagnostic,
+  ConverterDiagnosticCode,
+  ConverterDiagnosticSeverity,
+  DsnOrigin,
+  YOrientation,
+} from "./utils"
@@ -1,14 +1,17 @@
-import { cju } from "@tscircuit/circuit-json-util"
+import { cju, type CircuitJsonUtilObjects } from "@tscircuit/circuit-json-util"
 import type { CircuitJson } from "circuit-json"
+import type { SpectraDsn } from "dsnts"
+import { parseDsn, parseSes, type ConverterDiagnostic } from "../utils"
 import type {
   SesConverterContext,
+  SesToCircuitJsonConverterOptions,
   SesToCircuitJsonConverterStage,
 } from "./types"
-import { parseSpectraDsn, parseSpectraSes } from "dsnts"
+import { DsnToCircuitJsonConverter } from "../dsn-to-circuit-json/DsnToCircuitJsonConverter"
 import { InitializeSesContextStage } from "./stages/InitializeSesContextStage"
-import { CollectSesRoutesStage } from "./stages/CollectSesRoutesStage"
-import { GroupWiresIntoTracesStage } from "./stages/GroupWiresIntoTracesStage"
-import { PcbStitchPipelineSolver } from "../PcbStitchPipelineSolver/PcbStitchPipelineSolver"
+import { ApplySesPlacementStage } from "./stages/ApplySesPlacementStage"
+import { ApplySesWasIsStage } from "./stages/ApplySesWasIsStage"
+import { PcbStitchPipelineStage } from "./stages/PcbStitchPipelineStage"
 
 /**
  * Converts a Specctra SES (Session) file to Circuit JSON format.
@@ -22,16 +25,28 @@ import { PcbStitchPipelineSolver } from "../PcbStitchPipelineSolver/PcbStitchPip
  *
  * The conversion is performed in stages:
  * 1. InitializeSesContextStage - Set up coordinate transforms and mappings
- * 2. CollectSesRoutesStage - Extract wire segments and vias from routes, grouped by net
- * 3. GroupWiresIntoTracesStage - Group wires within each net into pcb_traces
- * 4. PcbStitchTraceStage - Stitch traces that share endpoints into longer traces
- * 5. PcbTraceCombineStage - Combine trace segments based on port connectivity
+ *    to the ports already in the database
+ * 2. ApplySesPlacementStage - Move components (and their pads) to the SES
+ *    placement
+ * 3. ApplySesWasIsStage - Rewrite net membership for swapped pins
+ * 4. PcbStitchPipelineStage - Stitch SES wires and vias into pad-to-pad
+ *    traces (PcbStitchPipelineSolver) and insert them into the database
+ *
+ * Without circuitJson or db to add the routes to, the DSN is converted first
+ * with the same origin, yOrientation and layerMapping, so the output has the
+ * board, pads and ports the traces connect to.
  *
  * Usage:
  * ```typescript
- * const converter = new SesToCircuitJsonConverter(sesString)
+ * const converter = new SesToCircuitJsonConverter(sesString, dsnString)
  * converter.runUntilFinished()
  * const circuitJson = converter.getOutput()
+ *
+ * // Add the routes to circuit JSON converted from the same DSN
+ * const dsnCircuitJson = convertDsnToCircuitJson(dsnString)
+ * const routedCircuitJson = convertSesToCircuitJson(sesString, dsnString, {
+ *   circuitJson: dsnCircuitJson,
+ * })
  * ```
  */
 export class SesToCircuitJsonConverter {
@@ -47,36 +62,63 @@ export class SesToCircuitJsonConverter {
   /**
    * Create a new converter from a SES string.
    * @param sesString - The raw SES file content as a string
+   * @param dsnString - The raw DSN file the SES was routed from
    * @param options - Optional configuration including original circuit JSON
    */
-  constructor(sesString: string, dsnString: string) {
-    // Parse the SES file using dsnts parseSpectraSes
-    const parsedSes = parseSpectraSes(sesString)
-    const parsedDsn = parseSpectraDsn(dsnString)
+  constructor(
+    sesString: string,
+    dsnString: string,
+    options: SesToCircuitJsonConverterOptions = {},
+  ) {
+    // Parse the SES file using dsnts
+    const parsedSes = parseSes(sesString)
+    const yOrientation = options.yOrientation ?? "preserve"
+    const layerMapping = options.layerMapping ?? {}
+
+    const origin = options.origin ?? "center"
 
-    // Initialize the context with parsed SES and empty circuit JSON database
+    let db: CircuitJsonUtilObjects
+    let dsn: SpectraDsn
+    let dsnDiagnostics: ConverterDiagnostic[] = []
+    if (options.db) {
+      db = options.db
+      dsn = parseDsn(dsnString)
+    } else if (options.circuitJson) {
+      // Copy the original circuit JSON since the database mutates it
+      db = cju(structuredClone(options.circuitJson))
+      dsn = parseDsn(dsnString)
+    } else {
+      // The routes need the board, pads and ports of the DSN. Strict mode
+      // only concerns the SES references, DSN problems stay diagnostics.
+      const dsnConverter = new DsnToCircuitJsonConverter(dsnString, {
+        yOrientation,
+        origin,
+        layerMapping,
+      })
+      dsnConverter.runUntilFinished()
+      db = dsnConverter.ctx.db
+      dsn = dsnConverter.ctx.specctraDsn
+      dsnDiagnostics = dsnConverter.getDiagnostics()
+    }
+
+    // Initialize the context with parsed SES and the circuit JSON database
     this.ctx = {
       ses: parsedSes,
-      dsn: parsedDsn,
-      db: cju([]), // Start with empty circuit JSON
+      dsn,
+      db,
+      diagnostics: [...dsnDiagnostics],
+      strict: options.strict ?? false,
+      yOrientation,
+      origin,
+      layerMapping,
     }
 
     // Set up the conversion pipeline
     this.pipeline = [
       new InitializeSesContextStage(this.ctx),
-      new PcbStitchPipelineSolver({
-        dsn: parsedDsn,
-        ses: parsedSes,
-      }) as any,
-
-      // NOW WE HAVE THE AGGREGATED TRACES, WE HAVE SCALING ETC. WE CAN NOW
-      // CONVERT TO CIRCUIT JSON
-
-      // legacy
-      // new CollectSesRoutesStage(this.ctx),
-      // // new GroupWiresIntoTracesStage(this.ctx),
-
-      // new PcbTraceCombineStage(this.ctx),
+      new ApplySesPlacementStage(this.ctx),
+      new ApplySesWasIsStage(this.ctx),
+      new PcbStitchPipelineStage(this.ctx),
     ]
   }
 
@@ -114,16 +156,30 @@ export class SesToCircuitJsonConverter {
   getOutput(): CircuitJson {
     return this.ctx.db.toArray() as CircuitJson
   }
+
+  /**
+   * Get the problems found during the conversion, e.g. pins whose padstack
+   * is missing. Elements they concern were skipped or simplified.
+   */
+  getDiagnostics(): ConverterDiagnostic[] {
+    return this.ctx.diagnostics
+  }
 }
 
 /**
  * Convenience function to convert a SES string to Circuit JSON.
  * @param sesString - The raw SES file content as a string
+ * @param dsnString - The raw DSN file the SES was routed from
  * @param options - Optional configuration including original circuit JSON
- * @returns The converted Circuit JSON array
+ * @returns The converted Circuit JSON array, merged into
+ * options.circuitJson when given
  */
-export function convertSesToCircuitJson(sesString: string): CircuitJson {
-  const converter = new SesToCircuitJsonConverter(sesString)
+export function convertSesToCircuitJson(
+  sesString: string,
+  dsnString: string,
+  options?: SesToCircuitJsonConverterOptions,
+): CircuitJson {
+  const converter = new SesToCircuitJsonConverter(sesString, dsnString, options)
   converter.runUntilFinished()
   return converter.getOutput()
 }
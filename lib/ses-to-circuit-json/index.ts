@@ -2,6 +2,9 @@ export {
   SesToCircuitJsonConverter,
   convertSesToCircuitJson,
 } from "./SesToCircuitJsonConverter"
-export type { SesConverterContext } from "./types"
+export type {
+  SesConverterContext,
+  SesToCircuitJsonConverterOptions,
+} from "./types"
 export { SesToCircuitJsonConverterStage as SesConverterStage } from "./types"
 export * from "./stages"
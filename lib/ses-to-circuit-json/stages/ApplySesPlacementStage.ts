@@ -0,0 +1,334 @@
+import type {
+  PCBKeepout,
+  PcbComponent,
+  PcbPlatedHole,
+  PcbSmtPad,
+} from "circuit-json"
+import { DsnKeepout } from "dsnts"
+import { SesToCircuitJsonConverterStage } from "../types"
+import {
+  applyToPoint,
+  compose,
+  inverse,
+  rotateDEG,
+  scale,
+  type Matrix,
+} from "transformation-matrix"
+import {
+  getCircuitJsonRotation,
+  getDsnKeepoutKind,
+  getDsnKeepoutShapes,
+  getDsnPlacementMatrix,
+  getDsnLibraryToMmScale,
+  getMatrixRotationDegrees,
+} from "../../utils"
+
+type ComponentPlacement = {
+  center: { x: number; y: number }
+  rotation: number
+  layer: "top" | "bottom"
+}
+
+/**
+ * ApplySesPlacementStage moves components to where the SES placement
+ * section puts them.
+ *
+ * SES Placement Section structure:
+ * (placement
+ *   (resolution um 10)
+ *   (component <image_id>
+ *     (place <component_ref> <x> <y> <side> <rotation>)
+ *   )
+ * )
+ *
+ * This stage:
+ * 1. Finds the pcb_component of every placed component ref, matching the
+ *    source_component name
+ * 2. Updates its center, rotation and layer ("front" -> "top", "back" ->
+ *    "bottom")
+ * 3. Moves its pcb_smtpads, pcb_plated_holes and pcb_ports with it. When the
+ *    component changes side its pads are mirrored in X and their layers
+ *    swapped
+ * 4. Moves the pcb_keepouts of its image keepouts the same way
+ *
+ * Components only exist when merging into DSN-converted circuit JSON, the
+ * stage does nothing otherwise.
+ */
+export class ApplySesPlacementStage extends SesToCircuitJsonConverterStage {
+  step(): boolean {
+    const { ses, db, sesPlacementToCircuitJsonTransformMatrix } = this.ctx
+
+    if (!sesPlacementToCircuitJsonTransformMatrix) {
+      throw new Error("Transform matrix not initialized")
+    }
+
+    const pcbComponentByRef = new Map<string, PcbComponent>()
+    for (const pcbComponent of db.pcb_component.list()) {
+      const sourceComponent = db.source_component.get(
+        pcbComponent.source_component_id,
+      )
+      if (sourceComponent) {
+        pcbComponentByRef.set(sourceComponent.name, pcbComponent)
+      }
+    }
+
+    const keepoutsByRef = this.getImageKeepoutsByComponentRef()
+
+    for (const component of ses.placement?.components ?? []) {
+      for (const place of component.places) {
+        const pcbComponent = place.componentRef
+          ? pcbComponentByRef.get(place.componentRef)
+          : undefined
+        if (!pcbComponent) {
+          this.addDiagnostic({
+            code: "unknown_component",
+            severity: "error",
+            sourcePath: `placement/component ${component.imageId}/place ${place.componentRef}`,
+            token: place.token,
+            message: `SES placement of unknown component ${place.componentRef} was ignored`,
+          })
+          continue
+        }
+
+        const center = applyToPoint(sesPlacementToCircuitJsonTransformMatrix, {
+          x: place.x ?? 0,
+          y: place.y ?? 0,
+        })
+
+        const placement: ComponentPlacement = {
+          center,
+          rotation: getCircuitJsonRotation(
+            place.rotation ?? 0,
+            this.ctx.yOrientation,
+          ),
+          layer: place.side === "back" ? "bottom" : "top",
+        }
+        this.moveImageKeepouts(
+          pcbComponent,
+          placement,
+          keepoutsByRef.get(place.componentRef!) ?? [],
+        )
+        this.moveComponent(pcbComponent, placement)
+      }
+    }
+
+    this.finished = true
+    return false
+  }
+
+  /**
+   * Maps the refs of the DSN components to the keepouts of their image
+   */
+  private getImageKeepoutsByComponentRef(): Map<string, DsnKeepout[]> {
+    const { dsn } = this.ctx
+    const keepoutsByImageId = new Map<string, DsnKeepout[]>()
+    for (const image of dsn.library?.images ?? []) {
+      const keepouts = image.otherChildren.filter(
+        (child): child is DsnKeepout => child instanceof DsnKeepout,
+      )
+      if (image.imageId && keepouts.length > 0) {
+        keepoutsByImageId.set(image.imageId, keepouts)
+      }
+    }
+
+    const keepoutsByRef = new Map<string, DsnKeepout[]>()
+    for (const component of dsn.placement?.components ?? []) {
+      const keepouts = keepoutsByImageId.get(component.imageId ?? "")
+      if (!keepouts) continue
+      for (const place of component.places) {
+        if (place.componentRef) keepoutsByRef.set(place.componentRef, keepouts)
+      }
+    }
+    return keepoutsByRef
+  }
+
+  /**
+   * circuit-json keepouts don't reference their component, so the keepouts
+   * CollectKeepoutsStage created for the component's image are found by
+   * kind, shape and center at the old placement, then replaced by the image
+   * keepouts at the new placement. Call before moveComponent.
+   */
+  private moveImageKeepouts(
+    pcbComponent: PcbComponent,
+    placement: ComponentPlacement,
+    keepouts: DsnKeepout[],
+  ): void {
+    if (keepouts.length === 0) return
+
+    const { db } = this.ctx
+    const dsnToMmScale = getDsnLibraryToMmScale(this.ctx.dsn)
+    const flipped = (pcbComponent.layer ?? "top") !== placement.layer
+    const oldMatrix = this.getImageToCircuitJsonMatrix({
+      center: pcbComponent.center,
+      rotation: pcbComponent.rotation ?? 0,
+      layer: pcbComponent.layer === "bottom" ? "bottom" : "top",
+    })
+    const newMatrix = this.getImageToCircuitJsonMatrix(placement)
+
+    const movedKeepoutIds = new Set<string>()
+    for (const keepout of keepouts) {
+      const description = getDsnKeepoutKind(keepout)
+      const newShapes = getDsnKeepoutShapes(keepout, newMatrix, dsnToMmScale)
+
+      getDsnKeepoutShapes(keepout, oldMatrix, dsnToMmScale).forEach(
+        (oldShape, i) => {
+          const pcbKeepout = db.pcb_keepout
+            .list()
+            .find(
+              (candidate) =>
+                !movedKeepoutIds.has(candidate.pcb_keepout_id) &&
+                candidate.description === description &&
+                candidate.shape === oldShape.shape &&
+                Math.abs(candidate.center.x - oldShape.center.x) < 1e-6 &&
+                Math.abs(candidate.center.y - oldShape.center.y) < 1e-6,
+            )
+          if (!pcbKeepout) return
+          movedKeepoutIds.add(pcbKeepout.pcb_keepout_id)
+
+          const { dsnLayer: _dsnLayer, ...newShape } = newShapes[i]!
+          // Reversing keeps keepouts on every layer in stackup order
+          db.pcb_keepout.update(pcbKeepout.pcb_keepout_id, {
+            ...newShape,
+            ...(flipped && {
+              layers: pcbKeepout.layers.map(flipLayer).reverse(),
+            }),
+          } as Partial<PCBKeepout>)
+        },
+      )
+    }
+  }
+
+  /**
+   * Same matrix CollectKeepoutsStage places image keepouts with: DSN library
+   * units to mm, then the component placement
+   */
+  private getImageToCircuitJsonMatrix(placement: ComponentPlacement): Matrix {
+    const dsnToMmScale = getDsnLibraryToMmScale(this.ctx.dsn)
+    return compose(
+      getDsnPlacementMatrix({
+        ...placement.center,
+        rotation: placement.rotation,
+        isBackSide: placement.layer === "bottom",
+        isYFlipped: this.ctx.yOrientation === "flip",
+      }),
+      scale(dsnToMmScale, dsnToMmScale),
+    )
+  }
+
+  private moveComponent(
+    pcbComponent: PcbComponent,
+    placement: ComponentPlacement,
+  ): void {
+    const { db } = this.ctx
+    const flipped = (pcbComponent.layer ?? "top") !== placement.layer
+    const isYFlipped = this.ctx.yOrientation === "flip"
+
+    // Undo the old placement, then apply the new one. Changing sides mirrors
+    // the component in X like CollectPadsStage does for back side components.
+    const matrix = compose(
+      getDsnPlacementMatrix({
+        ...placement.center,
+        rotation: placement.rotation,
+        isBackSide: placement.layer === "bottom",
+        isYFlipped,
+      }),
+      inverse(
+        getDsnPlacementMatrix({
+          ...pcbComponent.center,
+          rotation: pcbComponent.rotation ?? 0,
+          isBackSide: pcbComponent.layer === "bottom",
+          isYFlipped,
+        }),
+      ),
+    )
+
+    const pcbComponentId = pcbComponent.pcb_component_id
+    db.pcb_component.update(pcbComponentId, {
+      center: placement.center,
+      rotation: placement.rotation,
+      layer: placement.layer,
+    })
+
+    for (const smtpad of db.pcb_smtpad.list({
+      pcb_component_id: pcbComponentId,
+    })) {
+      db.pcb_smtpad.update(smtpad.pcb_smtpad_id, {
+        ...this.getMovedPadUpdate(smtpad, matrix),
+        ...(flipped && { layer: flipLayer(smtpad.layer) }),
+      } as Partial<PcbSmtPad>)
+    }
+
+    for (const platedHole of db.pcb_plated_hole.list({
+      pcb_component_id: pcbComponentId,
+    })) {
+      db.pcb_plated_hole.update(
+        platedHole.pcb_plated_hole_id,
+        this.getMovedPadUpdate(platedHole, matrix) as Partial<PcbPlatedHole>,
+      )
+    }
+
+    for (const pcbPort of db.pcb_port.list({
+      pcb_component_id: pcbComponentId,
+    })) {
+      db.pcb_port.update(pcbPort.pcb_port_id, {
+        ...applyToPoint(matrix, { x: pcbPort.x, y: pcbPort.y }),
+        ...(flipped && { layers: pcbPort.layers.map(flipLayer) }),
+      })
+    }
+  }
+
+  /**
+   * Returns the new position and shape of a pad or hole after applying the
+   * placement matrix. Rect-like shapes swap width and height for quarter
+   * turns, other rotations turn rects and pills into rotated_rects and
+   * rotated_pills.
+   */
+  private getMovedPadUpdate(
+    pad: PcbSmtPad | PcbPlatedHole,
+    matrix: Matrix,
+  ): Record<string, unknown> {
+    // Polygon pads only have points
+    const update: Record<string, unknown> =
+      "x" in pad ? applyToPoint(matrix, { x: pad.x, y: pad.y }) : {}
+
+    if ("points" in pad) {
+      update.points = pad.points.map((point) => applyToPoint(matrix, point))
+    }
+
+    if ("ccw_rotation" in pad && pad.ccw_rotation !== undefined) {
+      // Turn the pad's own X axis, which also handles mirroring
+      update.ccw_rotation = getMatrixRotationDegrees(
+        compose(matrix, rotateDEG(pad.ccw_rotation)),
+      )
+      return update
+    }
+
+    const rotation = getMatrixRotationDegrees(matrix)
+    if (rotation === 0 || rotation === 180) return update
+
+    if (rotation === 90 || rotation === 270) {
+      if ("width" in pad) {
+        update.width = pad.height
+        update.height = pad.width
+      }
+      if ("rect_pad_width" in pad) {
+        update.rect_pad_width = pad.rect_pad_height
+        update.rect_pad_height = pad.rect_pad_width
+      }
+      if ("outer_width" in pad) {
+        update.outer_width = pad.outer_height
+        update.outer_height = pad.outer_width
+        update.hole_width = pad.hole_height
+        update.hole_height = pad.hole_width
+      }
+    } else if (pad.shape === "rect" || pad.shape === "pill") {
+      update.shape = pad.shape === "rect" ? "rotated_rect" : "rotated_pill"
+      update.ccw_rotation = rotation
+    }
+
+    return update
+  }
+}
+
+const flipLayer = <T extends string>(layer: T): T =>
+  (layer === "top" ? "bottom" : layer === "bottom" ? "top" : layer) as T
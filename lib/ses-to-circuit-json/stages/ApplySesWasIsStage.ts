@@ -0,0 +1,71 @@
+import { SesToCircuitJsonConverterStage } from "../types"
+import { getSesPinSwaps } from "../../utils"
+
+/**
+ * ApplySesWasIsStage rewrites net membership for pins the router swapped.
+ *
+ * SES was_is Section structure:
+ * (was_is
+ *   (pins <was_pin_ref> <is_pin_ref>)
+ *   (pins U1-1 U1-2)
+ *   (pins U1-2 U1-1)
+ * )
+ *
+ * Routers may swap equivalent pins (or gates) to simplify routing. The "is"
+ * pin then takes the place of the "was" pin in its DSN net.
+ *
+ * This stage:
+ * 1. Maps every "was" source_port to the "is" source_port, matching
+ *    source_port names ("componentRef-pinId")
+ * 2. Replaces the swapped ports in every source_trace.connected_source_port_ids
+ *
+ * source_ports only exist when merging into DSN-converted circuit JSON, the
+ * stage does nothing otherwise.
+ */
+export class ApplySesWasIsStage extends SesToCircuitJsonConverterStage {
+  step(): boolean {
+    const { ses, db } = this.ctx
+
+    const pinSwaps = getSesPinSwaps(ses)
+    if (pinSwaps.size === 0) {
+      this.finished = true
+      return false
+    }
+
+    const sourcePortIdByPinRef = new Map<string, string>()
+    for (const sourcePort of db.source_port.list()) {
+      sourcePortIdByPinRef.set(sourcePort.name, sourcePort.source_port_id)
+    }
+
+    const swappedSourcePortIds = new Map<string, string>()
+    for (const [wasPinRef, isPinRef] of pinSwaps) {
+      const wasSourcePortId = sourcePortIdByPinRef.get(wasPinRef)
+      const isSourcePortId = sourcePortIdByPinRef.get(isPinRef)
+      if (wasSourcePortId && isSourcePortId) {
+        swappedSourcePortIds.set(wasSourcePortId, isSourcePortId)
+      } else {
+        const unresolvedPinRef = wasSourcePortId ? isPinRef : wasPinRef
+        this.addDiagnostic({
+          code: "unresolved_pin_ref",
+          severity: "error",
+          sourcePath: `was_is/pins ${wasPinRef} ${isPinRef}`,
+          token: "pins",
+          message: `Pin swap ${wasPinRef} -> ${isPinRef} was ignored, ${unresolvedPinRef} doesn't match any component pin`,
+        })
+      }
+    }
+
+    for (const sourceTrace of db.source_trace.list()) {
+      const connectedSourcePortIds = sourceTrace.connected_source_port_ids.map(
+        (sourcePortId) =>
+          swappedSourcePortIds.get(sourcePortId) ?? sourcePortId,
+      )
+      db.source_trace.update(sourceTrace.source_trace_id, {
+        connected_source_port_ids: connectedSourcePortIds,
+      })
+    }
+
+    this.finished = true
+    return false
+  }
+}
@@ -1,118 +1,93 @@
 import { SesToCircuitJsonConverterStage } from "../types"
-import { scale } from "transformation-matrix"
-import type { DsnCircle } from "dsnts"
+import { compose, scale } from "transformation-matrix"
+import {
+  getDsnLayerTable,
+  getDsnToMmScale,
+  getSesPlacementToMmScale,
+  getSesToMmScale,
+  getMmToCircuitJsonMatrix,
+} from "../../utils"
 
 /**
  * InitializeSesContextStage sets up the conversion context for SES files.
  *
  * This stage handles:
- * 1. Parsing resolution and unit information from the SES file
- * 2. Creating the coordinate transformation matrix (SES → Circuit JSON)
- * 3. Initializing mappings for components, pads, nets, etc.
- * 4. Building padstack lookup table from library_out section
+ * 1. Creating the coordinate transformation matrices (SES → Circuit JSON)
+ * 2. Mapping DSN pin references to the pcb_ports already in the database
+ * 3. Building the layer table from the DSN structure layers
  *
  * SES Coordinate System:
  * - SES files typically use mils as the base unit
  * - Resolution specifies the design unit precision
  * - Format: (resolution <unit> <value>) e.g., (resolution mil 1000)
  *
+ * - Y increases upward, like DSN
+ *
  * Circuit JSON Coordinate System:
  * - Uses millimeters (mm) as the base unit
- * - Y-axis may need to be flipped depending on SES origin
+ * - Y increases upward, unless the yOrientation is "flip"
  *
  * Transform:
  * - SES to Circuit JSON: scale based on resolution unit
  * - Mils to mm: 1 mil = 0.0254 mm
+ * - Move the origin like DsnToCircuitJsonConverter did for the circuit JSON
+ *   the routes are added to
+ * - Finally apply the yOrientation, the same way DsnToCircuitJsonConverter
+ *   does
  */
 export class InitializeSesContextStage extends SesToCircuitJsonConverterStage {
   step(): boolean {
     const { ses: parsedSes } = this.ctx
 
-    // Extract resolution information from routes section
-    const routes = parsedSes.routes
-    if (routes?.resolution) {
-      this.ctx.sesUnit = routes.resolution.unit
-      this.ctx.sesResolutionValue = routes.resolution.value
-    } else if (parsedSes.placement?.resolution) {
-      // Fallback to placement resolution
-      this.ctx.sesUnit = parsedSes.placement.resolution.unit
-      this.ctx.sesResolutionValue = parsedSes.placement.resolution.value
-    }
+    // 1 SES coordinate = (mm per unit) / resolution value
+    const scaleFactor = getSesToMmScale(parsedSes)
 
-    // Default to mils if not specified
-    if (!this.ctx.sesUnit) {
-      this.ctx.sesUnit = "mil"
-      this.ctx.sesResolutionValue = 1000
-    }
+    // SES routes are applied on top of the DSN placements, so they use the
+    // DSN coordinate system placed like DsnToCircuitJsonConverter placed it
+    // in the circuit JSON the routes are added to.
+    const dsnToMmScale = getDsnToMmScale(this.ctx.dsn)
+    // mm -> circuit JSON: move the origin, then orient Y
+    const mmToCircuitJson = getMmToCircuitJsonMatrix(this.ctx.dsn, {
+      origin: this.ctx.origin,
+      yOrientation: this.ctx.yOrientation,
+    })
 
-    // Calculate scale factor based on unit
-    let scaleFactor: number
-    const resolutionValue = this.ctx.sesResolutionValue || 1
-
-    switch (this.ctx.sesUnit) {
-      case "mil":
-        // Convert mils to mm: 1 mil = 0.0254 mm
-        // With resolution value, 1 design unit = 1/resolutionValue mils
-        scaleFactor = 0.0254 / resolutionValue
-        break
-      case "mm":
-        scaleFactor = 1 / resolutionValue
-        break
-      case "um":
-        scaleFactor = 0.001 / resolutionValue
-        break
-      case "in":
-        scaleFactor = 25.4 / resolutionValue
-        break
-      default:
-        // Default to mils
-        scaleFactor = 0.0254 / resolutionValue
-    }
+    this.ctx.sesToCircuitJsonTransformMatrix = compose(
+      mmToCircuitJson,
+      scale(scaleFactor, scaleFactor),
+    )
+    const placementScaleFactor = getSesPlacementToMmScale(parsedSes)
+    this.ctx.sesPlacementToCircuitJsonTransformMatrix = compose(
+      mmToCircuitJson,
+      scale(placementScaleFactor, placementScaleFactor),
+    )
+    this.ctx.dsnToCircuitJsonTransformMatrix = compose(
+      mmToCircuitJson,
+      scale(dsnToMmScale, dsnToMmScale),
+    )
 
-    // For SES files, we do a direct coordinate conversion without centering.
-    // SES routes are meant to be applied on top of existing DSN placements,
-    // so we should preserve the original coordinate system.
-    // Only scale from SES units to mm.
-    this.ctx.sesToCircuitJsonTransformMatrix = scale(scaleFactor, scaleFactor)
+    // Link trace endpoints to existing DSN-derived ports
+    this.buildPinRefLookup()
 
-    // Initialize mappings
-    this.ctx.padstackIdToViaShape = new Map()
-
-    // Build padstack lookup table from library_out
-    this.buildPadstackLookup()
+    // SES layers refer to the DSN structure layers
+    this.ctx.layerTable = getDsnLayerTable(this.ctx.dsn, this.ctx.layerMapping)
 
     this.finished = true
     return false
   }
 
   /**
-   * Build a lookup table from padstack IDs to their via diameter.
+   * Build a lookup table from DSN pin references to the pcb_ports in the
+   * database. CollectPadsStage names each source_port "componentRef-pinId".
    */
-  private buildPadstackLookup(): void {
-    const { ses: spectraDsn } = this.ctx
-    const libraryOut = spectraDsn.routes?.libraryOut
-
-    if (!libraryOut) return
-
-    for (const padstack of libraryOut.padstacks) {
-      if (!padstack.padstackId) continue
-
-      // Get the first shape to determine via diameter
-      const shape = padstack.shapes[0]
-      if (!shape) continue
+  private buildPinRefLookup(): void {
+    const { db } = this.ctx
+    this.ctx.pinRefToPcbPortId = new Map()
 
-      // Shape contains otherChildren with circle elements for vias
-      const shapeChildren = shape.otherChildren || []
-      for (const child of shapeChildren) {
-        if (child.token === "circle" || child.token === "circ") {
-          const circleChild = child as DsnCircle
-          this.ctx.padstackIdToViaShape!.set(padstack.padstackId, {
-            shape: "circle",
-            diameter: circleChild.diameter,
-          })
-          break
-        }
-      }
+    for (const pcbPort of db.pcb_port.list()) {
+      const sourcePort = db.source_port.get(pcbPort.source_port_id)
+      if (!sourcePort) continue
+      this.ctx.pinRefToPcbPortId.set(sourcePort.name, pcbPort.pcb_port_id)
     }
   }
 }
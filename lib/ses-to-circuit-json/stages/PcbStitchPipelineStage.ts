@@ -0,0 +1,184 @@
+import type { PcbTrace, PcbTraceError, PcbVia } from "circuit-json"
+import { SesToCircuitJsonConverterStage } from "../types"
+import type { ConverterDiagnostic } from "../../utils"
+import { PcbStitchPipelineSolver } from "../../PcbStitchPipelineSolver/PcbStitchPipelineSolver"
+
+/**
+ * PcbStitchPipelineStage runs the PcbStitchPipelineSolver and writes its
+ * result into the circuit JSON database.
+ *
+ * The solver walks from every DSN pad through the connected SES wires and
+ * vias to build pad-to-pad traces, then reattaches (or reports) fragments
+ * that weren't reachable from a pad.
+ *
+ * This stage:
+ * 1. Runs the PcbStitchPipelineSolver on the parsed DSN and SES
+ * 2. Inserts the stitched traces as pcb_trace elements, linked to the
+ *    source_trace of their net when the database has one
+ * 3. Inserts the vias as pcb_via elements, linked to their pcb_trace
+ * 4. Inserts a pcb_trace_error for every fragment left dangling
+ *
+ * Pads the solver can't locate (unknown image or padstack, padstack without
+ * a shape) are skipped and reported, unless the DSN conversion already
+ * reported them.
+ *
+ * Element ids are reassigned by the database, so references between the
+ * inserted elements (e.g. pcb_via.pcb_trace_id) are remapped.
+ */
+export class PcbStitchPipelineStage extends SesToCircuitJsonConverterStage {
+  solver?: PcbStitchPipelineSolver
+
+  step(): boolean {
+    const { ses, dsn } = this.ctx
+
+    this.solver = new PcbStitchPipelineSolver({
+      dsn,
+      ses,
+      dsnToRealTransform: this.ctx.dsnToCircuitJsonTransformMatrix,
+      sesToRealTransform: this.ctx.sesToCircuitJsonTransformMatrix,
+      pinRefToPcbPortId: this.ctx.pinRefToPcbPortId,
+      layerTable: this.ctx.layerTable,
+    })
+    this.solver.solve()
+
+    if (this.solver.failed) {
+      throw new Error(`PcbStitchPipelineSolver failed: ${this.solver.error}`)
+    }
+
+    const { traces, vias, traceErrors, netNameByPcbElementId, diagnostics } =
+      this.solver.getOutput()
+
+    this.reportSkippedPads(diagnostics)
+    this.reportUnknownNets()
+
+    const sourceTraceIdByNetName = this.getSourceTraceIdByNetName()
+    const getSourceTraceId = (pcbElementId: string) => {
+      const netName = netNameByPcbElementId.get(pcbElementId)
+      return netName === undefined
+        ? undefined
+        : sourceTraceIdByNetName.get(netName)
+    }
+
+    const pcbTraceIdMap = this.insertTraces(traces, getSourceTraceId)
+    this.insertVias(vias, pcbTraceIdMap)
+    this.insertTraceErrors(traceErrors, pcbTraceIdMap, getSourceTraceId)
+
+    for (const traceError of traceErrors) {
+      const netName = netNameByPcbElementId.get(traceError.pcb_trace_error_id)
+      this.addDiagnostic({
+        code: "dangling_route",
+        severity: "warning",
+        sourcePath:
+          netName === undefined
+            ? "routes/network_out"
+            : `routes/network_out/net ${netName}`,
+        token: netName === undefined ? "network_out" : "net",
+        message: traceError.message,
+      })
+    }
+
+    this.finished = true
+    return false
+  }
+
+  /**
+   * Adds the diagnostics of the pads the solver skipped, the DSN converter
+   * reports the same ones when it created the database
+   */
+  private reportSkippedPads(diagnostics: ConverterDiagnostic[]): void {
+    for (const diagnostic of diagnostics) {
+      const isReported = this.ctx.diagnostics.some(
+        ({ code, sourcePath }) =>
+          code === diagnostic.code && sourcePath === diagnostic.sourcePath,
+      )
+      if (!isReported) this.addDiagnostic(diagnostic)
+    }
+  }
+
+  /**
+   * Adds a diagnostic for every routed SES net missing from the DSN network,
+   * its wires can't be linked to a source_trace
+   */
+  private reportUnknownNets(): void {
+    const { ses, dsn } = this.ctx
+    const dsnNetNames = new Set(
+      (dsn.network?.nets ?? []).map((net) => net.netName),
+    )
+
+    for (const net of ses.routes?.networkOut?.nets ?? []) {
+      if (!net.netName || dsnNetNames.has(net.netName)) continue
+      this.addDiagnostic({
+        code: "unknown_net",
+        severity: "warning",
+        sourcePath: `routes/network_out/net ${net.netName}`,
+        token: net.token,
+        message: `SES net ${net.netName} isn't in the DSN network, its routes have no source_trace`,
+      })
+    }
+  }
+
+  /**
+   * Maps net names to the source_trace created for the net by
+   * CollectNetsStage, through the source_net of the same name
+   */
+  private getSourceTraceIdByNetName(): Map<string, string> {
+    const { db } = this.ctx
+    const sourceTraceIdByNetName = new Map<string, string>()
+
+    for (const sourceTrace of db.source_trace.list()) {
+      for (const sourceNetId of sourceTrace.connected_source_net_ids) {
+        const sourceNet = db.source_net.get(sourceNetId)
+        if (!sourceNet || sourceTraceIdByNetName.has(sourceNet.name)) continue
+        sourceTraceIdByNetName.set(sourceNet.name, sourceTrace.source_trace_id)
+      }
+    }
+
+    return sourceTraceIdByNetName
+  }
+
+  private insertTraces(
+    traces: PcbTrace[],
+    getSourceTraceId: (pcbTraceId: string) => string | undefined,
+  ): Map<string, string> {
+    const pcbTraceIdMap = new Map<string, string>()
+
+    for (const trace of traces) {
+      const { pcb_trace_id, ...traceData } = trace
+      const inserted = this.ctx.db.pcb_trace.insert({
+        ...traceData,
+        source_trace_id: getSourceTraceId(pcb_trace_id),
+      })
+      pcbTraceIdMap.set(pcb_trace_id, inserted.pcb_trace_id)
+    }
+
+    return pcbTraceIdMap
+  }
+
+  private insertVias(vias: PcbVia[], pcbTraceIdMap: Map<string, string>) {
+    for (const via of vias) {
+      const { pcb_via_id, ...viaData } = via
+      this.ctx.db.pcb_via.insert({
+        ...viaData,
+        pcb_trace_id: via.pcb_trace_id
+          ? pcbTraceIdMap.get(via.pcb_trace_id)
+          : undefined,
+      })
+    }
+  }
+
+  private insertTraceErrors(
+    traceErrors: PcbTraceError[],
+    pcbTraceIdMap: Map<string, string>,
+    getSourceTraceId: (pcbElementId: string) => string | undefined,
+  ) {
+    for (const traceError of traceErrors) {
+      const { pcb_trace_error_id, ...errorData } = traceError
+      this.ctx.db.pcb_trace_error.insert({
+        ...errorData,
+        pcb_trace_id: pcbTraceIdMap.get(traceError.pcb_trace_id) ?? "",
+        source_trace_id:
+          getSourceTraceId(pcb_trace_error_id) ?? errorData.source_trace_id,
+      })
+    }
+  }
+}
@@ -1,3 +1,4 @@
 export { InitializeSesContextStage } from "./InitializeSesContextStage"
-export { CollectSesRoutesStage } from "./CollectSesRoutesStage"
-export { PcbStitchTraceStage } from "./PcbStitchTraceStage"
+export { ApplySesPlacementStage } from "./ApplySesPlacementStage"
+export { ApplySesWasIsStage } from "./ApplySesWasIsStage"
+export { PcbStitchPipelineStage } from "./PcbStitchPipelineStage"
@@ -1,27 +1,58 @@
 import type { CircuitJsonUtilObjects } from "@tscircuit/circuit-json-util"
-import { DsnPadstack, SpectraDsn, type SpectraSes } from "dsnts"
+import type { SpectraDsn, SpectraSes } from "dsnts"
 import type { Matrix } from "transformation-matrix"
 import type { CircuitJson, LayerRef } from "circuit-json"
-
-export type PadStackId = string
+import {
+  getUnresolvedReferenceError,
+  type ConverterDiagnostic,
+  type DsnLayerTable,
+  type DsnOrigin,
+  type YOrientation,
+} from "../utils"
 
 /**
- * Represents a wire segment extracted from an SES file.
+ * Options for SesToCircuitJsonConverter
  */
-export interface WireSegment {
-  points: Array<{ x: number; y: number }>
-  layer: "top" | "bottom"
-  width: number
-}
+export interface SesToCircuitJsonConverterOptions {
+  /**
+   * Existing circuit JSON to add the routes to, e.g. the output of
+   * convertDsnToCircuitJson for the DSN the SES was routed from. Routes are
+   * placed in its coordinate frame. The array itself is not modified.
+   */
+  circuitJson?: CircuitJson
 
-/**
- * Represents via information extracted from an SES file.
- */
-export interface ViaInfo {
-  x: number
-  y: number
-  fromLayer: LayerRef
-  toLayer: LayerRef
+  /**
+   * Database to insert the routes into directly, e.g. the db of a finished
+   * DsnToCircuitJsonConverter. Takes precedence over circuitJson.
+   */
+  db?: CircuitJsonUtilObjects
+
+  /**
+   * How SES and DSN Y coordinates map to circuit-json Y. Defaults to
+   * "preserve". When merging, use the yOrientation the DSN was converted
+   * with.
+   */
+  yOrientation?: YOrientation
+
+  /**
+   * Where the DSN board lands in the circuit JSON the routes are added to.
+   * Defaults to "center", like DsnToCircuitJsonConverter. Without
+   * circuitJson or db, the DSN is converted with this origin.
+   */
+  origin?: DsnOrigin
+
+  /**
+   * Overrides the circuit-json layer of DSN layer names, use the same
+   * layerMapping the DSN was converted with
+   */
+  layerMapping?: Record<string, LayerRef>
+
+  /**
+   * Throw an UnresolvedReferenceError (e.g. UnknownNetError) when the SES
+   * references a net, component or pin the DSN doesn't have, instead of
+   * skipping it. Defaults to false.
+   */
+  strict?: boolean
 }
 
 /**
@@ -45,6 +76,16 @@ export interface SesConverterContext {
    */
   db: CircuitJsonUtilObjects
 
+  /**
+   * Problems found during the conversion, in the order they were found
+   */
+  diagnostics: ConverterDiagnostic[]
+
+  /**
+   * Throw on unresolved references instead of recording a diagnostic
+   */
+  strict: boolean
+
   /**
    * Transformation matrix from SES coordinates to Circuit JSON coordinates.
    * SES typically uses mils, Circuit JSON uses millimeters (mm).
@@ -52,27 +93,45 @@ export interface SesConverterContext {
   sesToCircuitJsonTransformMatrix?: Matrix
 
   /**
-   * The resolution/scale factor from SES file.
-   * Typically from (resolution mil 1000) in routes section.
+   * Transformation matrix from SES placement coordinates to Circuit JSON
+   * coordinates. The placement section can use its own resolution.
    */
-  sesResolutionValue?: number
+  sesPlacementToCircuitJsonTransformMatrix?: Matrix
 
   /**
-   * The unit from SES file (e.g., "mil", "mm")
+   * Transformation matrix from DSN coordinates to Circuit JSON coordinates,
+   * used to locate DSN pads in the same frame as the SES routes.
    */
-  sesUnit?: string
+  dsnToCircuitJsonTransformMatrix?: Matrix
 
   /**
-   * Maps padstack ID to via diameter.
-   * Vias are always circular.
+   * How SES and DSN Y coordinates map to circuit-json Y, applied by all
+   * transformation matrices and component placements
    */
-  padstackIdToViaShape?: Map<
-    PadStackId,
-    {
-      shape: "circle"
-      diameter?: number
-    }
-  >
+  yOrientation: YOrientation
+
+  /**
+   * Where the DSN board lands in circuit-json
+   */
+  origin: DsnOrigin
+
+  /**
+   * Overrides of the circuit-json layer of DSN layer names, applied to the
+   * layerTable
+   */
+  layerMapping: Record<string, LayerRef>
+
+  /**
+   * Maps DSN pin references ("componentRef-pinId") to the pcb_port_id of
+   * the port already in the database, used to link trace endpoints
+   */
+  pinRefToPcbPortId?: Map<string, string>
+
+  /**
+   * DSN structure layers in stackup order, mapped to circuit-json layers
+   * (top, inner1..innerN, bottom). SES wires and vias use the DSN layers.
+   */
+  layerTable?: DsnLayerTable
 }
 
 /**
@@ -90,6 +149,18 @@ export abstract class SesToCircuitJsonConverterStage {
     this.ctx = ctx
   }
 
+  /**
+   * Records something this stage couldn't convert. In strict mode,
+   * unresolved references are thrown instead.
+   */
+  protected addDiagnostic(diagnostic: ConverterDiagnostic): void {
+    if (this.ctx.strict) {
+      const error = getUnresolvedReferenceError(diagnostic)
+      if (error) throw error
+    }
+    this.ctx.diagnostics.push(diagnostic)
+  }
+
   /**
    * Execute one step of the conversion stage.
    * Returns true if the stage needs more iterations, false if complete.
@@ -0,0 +1,67 @@
+/**
+ * Codes of the problems the converters report instead of failing:
+ * - unknown_image: a placement uses an image missing from the library, the
+ *   component has no pads
+ * - unknown_padstack: a pin uses a padstack missing from the library, the
+ *   pin has no pad
+ * - padstack_without_shape: a pin's padstack has no shape, SES routes can't
+ *   be connected to the pin
+ * - unresolved_pin_ref: a net or was_is pin doesn't match any component pin
+ * - unknown_component: an SES placement names a component the DSN doesn't
+ *   have
+ * - unknown_net: an SES net isn't in the DSN network
+ * - unsupported_wire_child: a wire child other than a path, polyline_path,
+ *   net, type, clearance_class, attr or shield is ignored
+ * - unsupported_wiring_element: a wiring element other than a wire or via
+ *   is ignored
+ * - unsupported_keepout_shape: a keepout shape other than a circle, rect,
+ *   polygon or path is ignored
+ * - estimated_hole_diameter: a through-hole padstack name doesn't give the
+ *   drill size, the hole is half the pad size
+ * - plane_without_polygon: a (plane ...) without a polygon is ignored
+ * - power_layer_without_net: a (type power) layer without a plane isn't
+ *   named like a net, so no copper pour is created for it
+ * - dangling_route: SES wires or vias couldn't be connected to a pad, a
+ *   pcb_trace_error was created
+ */
+export type ConverterDiagnosticCode =
+  | "unknown_image"
+  | "unknown_padstack"
+  | "padstack_without_shape"
+  | "unresolved_pin_ref"
+  | "unknown_component"
+  | "unknown_net"
+  | "unsupported_wire_child"
+  | "unsupported_wiring_element"
+  | "unsupported_keepout_shape"
+  | "estimated_hole_diameter"
+  | "plane_without_polygon"
+  | "power_layer_without_net"
+  | "dangling_route"
+
+/**
+ * "error" when data that's in the file is missing from the output, "warning"
+ * when it's converted differently or only partially
+ */
+export type ConverterDiagnosticSeverity = "error" | "warning"
+
+/**
+ * Something the DSN or SES converter couldn't convert
+ */
+export interface ConverterDiagnostic {
+  code: ConverterDiagnosticCode
+  severity: ConverterDiagnosticSeverity
+
+  /**
+   * Location of the element in the file, section first, e.g.
+   * "library/image DIP8/pin 3"
+   */
+  sourcePath: string
+
+  /**
+   * Token of the element, e.g. "pin"
+   */
+  token: string
+
+  message: string
+}
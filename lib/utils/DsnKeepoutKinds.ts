@@ -0,0 +1,93 @@
+import { DsnKeepout } from "dsnts"
+
+type PrimitiveSExpr = Parameters<
+  typeof DsnKeepout.fromSexprPrimitives
+>[0][number]
+
+/**
+ * Keepout kinds of the Specctra format. (keepout ...) blocks everything,
+ * the others only block vias, wires or component placement.
+ */
+export type DsnKeepoutKind =
+  | "keepout"
+  | "via_keepout"
+  | "wire_keepout"
+  | "place_keepout"
+
+/**
+ * A (via_keepout ...) in the structure or an image
+ */
+export class DsnViaKeepout extends DsnKeepout {
+  static override token = "via_keepout"
+  override token = "via_keepout"
+
+  static override fromSexprPrimitives(
+    primitiveSexprs: PrimitiveSExpr[],
+  ): DsnViaKeepout {
+    const keepout = new DsnViaKeepout()
+    keepout.otherChildren =
+      DsnKeepout.fromSexprPrimitives(primitiveSexprs).otherChildren
+    return keepout
+  }
+}
+
+/**
+ * A (wire_keepout ...) in the structure or an image
+ */
+export class DsnWireKeepout extends DsnKeepout {
+  static override token = "wire_keepout"
+  override token = "wire_keepout"
+
+  static override fromSexprPrimitives(
+    primitiveSexprs: PrimitiveSExpr[],
+  ): DsnWireKeepout {
+    const keepout = new DsnWireKeepout()
+    keepout.otherChildren =
+      DsnKeepout.fromSexprPrimitives(primitiveSexprs).otherChildren
+    return keepout
+  }
+}
+
+/**
+ * A (place_keepout ...) in the structure or an image
+ */
+export class DsnPlaceKeepout extends DsnKeepout {
+  static override token = "place_keepout"
+  override token = "place_keepout"
+
+  static override fromSexprPrimitives(
+    primitiveSexprs: PrimitiveSExpr[],
+  ): DsnPlaceKeepout {
+    const keepout = new DsnPlaceKeepout()
+    keepout.otherChildren =
+      DsnKeepout.fromSexprPrimitives(primitiveSexprs).otherChildren
+    return keepout
+  }
+}
+
+/**
+ * dsnts only knows (keepout ...), parseDsn registers these classes so the
+ * other kinds parse too. Like (keepout ...), they can appear in the structure
+ * and in images.
+ */
+export const DSN_KEEPOUT_KIND_CLASSES = [
+  DsnViaKeepout,
+  DsnWireKeepout,
+  DsnPlaceKeepout,
+].flatMap((KeepoutClass) => [
+  KeepoutClass,
+  class extends KeepoutClass {
+    static override parentToken = "image"
+  },
+])
+
+/**
+ * Returns the keepout kind of a parsed (keepout ...), (via_keepout ...),
+ * (wire_keepout ...) or (place_keepout ...)
+ */
+export function getDsnKeepoutKind(keepout: DsnKeepout): DsnKeepoutKind {
+  if (keepout instanceof DsnViaKeepout) return "via_keepout"
+  if (keepout instanceof DsnWireKeepout) return "wire_keepout"
+  if (keepout instanceof DsnPlaceKeepout) return "place_keepout"
+  return "keepout"
+}
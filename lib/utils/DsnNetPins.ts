@@ -0,0 +1,50 @@
+import { DsnPins } from "dsnts"
+
+type PrimitiveSExpr = Parameters<typeof DsnPins.fromSexprPrimitives>[0][number]
+
+/**
+ * A (pins <pin_ref> ...) of a (net ...) that keeps quoted pin references
+ * whole.
+ *
+ * Pin references are "<component_ref>-<pin_id>", Altium and Eagle exports
+ * quote the parts that contain spaces or dashes: "U1-A"-"B-3", "Q 1"-2.
+ * dsnts reads these as separate strings ("U1-A", "-", "B-3") and drops the
+ * "-2" number, so the parts are joined back into one pin reference
+ * ("U1-A-B-3", "Q 1-2"). resolveDsnPinRef splits it on the known component
+ * refs. Parsed pins are plain DsnPins instances. parseDsn registers this
+ * class in place of the dsnts one.
+ */
+export class DsnNetPins extends DsnPins {
+  static override parentToken = "net"
+
+  static override fromSexprPrimitives(
+    primitiveSexprs: PrimitiveSExpr[],
+  ): DsnPins {
+    return new DsnPins({ pinRefs: joinPinRefParts(primitiveSexprs) })
+  }
+}
+
+/**
+ * Joins parts separated by a dash back together: a part starting with a
+ * dash continues the previous pin reference, a part ending with one is
+ * continued by the next.
+ */
+const joinPinRefParts = (primitiveSexprs: PrimitiveSExpr[]): string[] => {
+  const pinRefs: string[] = []
+  let continuesPrevious = false
+
+  for (const primitive of primitiveSexprs) {
+    if (typeof primitive !== "string" && typeof primitive !== "number") {
+      continue
+    }
+    const part = String(primitive)
+    if (pinRefs.length > 0 && (continuesPrevious || part.startsWith("-"))) {
+      pinRefs[pinRefs.length - 1] += part
+    } else {
+      pinRefs.push(part)
+    }
+    continuesPrevious = part.endsWith("-")
+  }
+
+  return pinRefs
+}
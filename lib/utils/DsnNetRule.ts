@@ -0,0 +1,12 @@
+import { DsnRule } from "dsnts"
+
+/**
+ * A (rule ...) inside a (net ...), overriding the rules of the net's class.
+ *
+ * dsnts only knows (rule ...) under structure and class, parseDsn registers
+ * this class so DSN files with per-net rules parse. Parsed rules are DsnRule
+ * instances in the net's otherChildren.
+ */
+export class DsnNetRule extends DsnRule {
+  static override parentToken = "net"
+}
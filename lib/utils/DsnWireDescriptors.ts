@@ -0,0 +1,40 @@
+import { SxClass } from "dsnts"
+
+type PrimitiveSExpr = Parameters<typeof SxClass.fromSexprPrimitives>[0][number]
+
+/**
+ * A wire descriptor dsnts doesn't know, e.g. (attr test) or (shield GND).
+ * Its arguments are kept unparsed.
+ *
+ * Specctra wires can carry (turret ...), (attr ...), (shield ...),
+ * (window ...), (connect ...) and (supply) next to their shape, dsnts fails
+ * to parse wires with any of them. parseDsn and parseSes register a class
+ * per descriptor token (see DSN_WIRE_DESCRIPTOR_CLASSES).
+ */
+export abstract class DsnWireDescriptor extends SxClass {
+  static override parentToken = "wire"
+  args: PrimitiveSExpr[] = []
+}
+
+export const DSN_WIRE_DESCRIPTOR_CLASSES = [
+  "turret",
+  "attr",
+  "shield",
+  "window",
+  "connect",
+  "supply",
+].map(
+  (descriptorToken) =>
+    class extends DsnWireDescriptor {
+      static override token = descriptorToken
+      override token = descriptorToken
+
+      static override fromSexprPrimitives(
+        primitiveSexprs: PrimitiveSExpr[],
+      ): DsnWireDescriptor {
+        const descriptor = new this()
+        descriptor.args = primitiveSexprs
+        return descriptor
+      }
+    },
+)
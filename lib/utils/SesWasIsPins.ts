@@ -0,0 +1,13 @@
+import { DsnNetPins } from "./DsnNetPins"
+
+/**
+ * A (pins <was_pin_ref> <is_pin_ref>) pair in the SES was_is section.
+ *
+ * dsnts only knows (pins ...) under (net ...), parseSes registers this class
+ * so SES files recording pin swaps parse. Quoted pin references are joined
+ * like in DSN nets (see DsnNetPins). Parsed pairs are plain DsnPins
+ * instances.
+ */
+export class SesWasIsPins extends DsnNetPins {
+  static override parentToken = "was_is"
+}
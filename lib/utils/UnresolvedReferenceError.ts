@@ -0,0 +1,84 @@
+import type {
+  ConverterDiagnostic,
+  ConverterDiagnosticCode,
+} from "./ConverterDiagnostic"
+
+/**
+ * Thrown in strict mode when the DSN or SES references an element that
+ * doesn't exist. The diagnostic the converter would have recorded is kept on
+ * the error.
+ */
+export class UnresolvedReferenceError extends Error {
+  readonly diagnostic: ConverterDiagnostic
+
+  constructor(diagnostic: ConverterDiagnostic) {
+    super(`${diagnostic.message} (at ${diagnostic.sourcePath})`)
+    this.name = "UnresolvedReferenceError"
+    this.diagnostic = diagnostic
+  }
+
+  get code(): ConverterDiagnosticCode {
+    return this.diagnostic.code
+  }
+}
+
+/**
+ * A placement uses an image missing from the library
+ */
+export class UnknownImageError extends UnresolvedReferenceError {
+  override name = "UnknownImageError"
+}
+
+/**
+ * A pin uses a padstack missing from the library
+ */
+export class UnknownPadstackError extends UnresolvedReferenceError {
+  override name = "UnknownPadstackError"
+}
+
+/**
+ * A net or was_is pin doesn't match a pin of an existing component
+ */
+export class UnresolvedPinRefError extends UnresolvedReferenceError {
+  override name = "UnresolvedPinRefError"
+}
+
+/**
+ * An SES placement names a component the DSN doesn't have
+ */
+export class UnknownComponentError extends UnresolvedReferenceError {
+  override name = "UnknownComponentError"
+}
+
+/**
+ * An SES net isn't in the DSN network
+ */
+export class UnknownNetError extends UnresolvedReferenceError {
+  override name = "UnknownNetError"
+}
+
+const ERROR_CLASS_BY_CODE: Partial<
+  Record<
+    ConverterDiagnosticCode,
+    new (
+      diagnostic: ConverterDiagnostic,
+    ) => UnresolvedReferenceError
+  >
+> = {
+  unknown_image: UnknownImageError,
+  unknown_padstack: UnknownPadstackError,
+  unresolved_pin_ref: UnresolvedPinRefError,
+  unknown_component: UnknownComponentError,
+  unknown_net: UnknownNetError,
+}
+
+/**
+ * Returns the error strict mode throws for a diagnostic, or undefined when
+ * the diagnostic isn't an unresolved reference (e.g. an unsupported shape)
+ */
+export function getUnresolvedReferenceError(
+  diagnostic: ConverterDiagnostic,
+): UnresolvedReferenceError | undefined {
+  const ErrorClass = ERROR_CLASS_BY_CODE[diagnostic.code]
+  return ErrorClass ? new ErrorClass(diagnostic) : undefined
+}
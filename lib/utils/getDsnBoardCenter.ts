@@ -0,0 +1,55 @@
+import type { SpectraDsn } from "dsnts"
+
+/**
+ * Calculate the center of the board boundary in DSN units.
+ * Used for centering the board at origin in Circuit JSON.
+ */
+export function getDsnBoardCenter(dsn: SpectraDsn): { x: number; y: number } {
+  const boundary = dsn.structure?.boundary
+
+  if (!boundary) {
+    return { x: 0, y: 0 }
+  }
+
+  // Collect all boundary points
+  const xs: number[] = []
+  const ys: number[] = []
+
+  // Process paths
+  for (const path of boundary.paths || []) {
+    const coords = path.coordinates || []
+    for (let i = 0; i < coords.length; i += 2) {
+      if (coords[i] !== undefined && coords[i + 1] !== undefined) {
+        xs.push(coords[i]!)
+        ys.push(coords[i + 1]!)
+      }
+    }
+  }
+
+  // Process rects
+  for (const rect of boundary.rects || []) {
+    if (
+      rect.x1 !== undefined &&
+      rect.y1 !== undefined &&
+      rect.x2 !== undefined &&
+      rect.y2 !== undefined
+    ) {
+      xs.push(rect.x1, rect.x2)
+      ys.push(rect.y1, rect.y2)
+    }
+  }
+
+  if (xs.length === 0 || ys.length === 0) {
+    return { x: 0, y: 0 }
+  }
+
+  const minX = Math.min(...xs)
+  const maxX = Math.max(...xs)
+  const minY = Math.min(...ys)
+  const maxY = Math.max(...ys)
+
+  return {
+    x: (minX + maxX) / 2,
+    y: (minY + maxY) / 2,
+  }
+}
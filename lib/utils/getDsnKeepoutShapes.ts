@@ -0,0 +1,107 @@
+import { DsnCircle, DsnPath, DsnPolygon, DsnRect, type DsnKeepout } from "dsnts"
+import { applyToPoint, type Matrix } from "transformation-matrix"
+
+/**
+ * A keepout shape in circuit-json coordinates, with the DSN layer it was
+ * declared on
+ */
+export type DsnKeepoutShape =
+  | {
+      shape: "circle"
+      center: { x: number; y: number }
+      radius: number
+      dsnLayer?: string | number
+    }
+  | {
+      shape: "rect"
+      center: { x: number; y: number }
+      width: number
+      height: number
+      dsnLayer?: string | number
+    }
+
+/**
+ * Returns the circle and rect shapes of a DSN keepout after applying the
+ * matrix. Rects, polygons and paths become their bounding rect, paths grow
+ * by half their width. Unsupported shapes are skipped.
+ */
+export function getDsnKeepoutShapes(
+  keepout: DsnKeepout,
+  matrix: Matrix,
+  dsnToMmScale: number,
+): DsnKeepoutShape[] {
+  const shapes: DsnKeepoutShape[] = []
+
+  for (const shape of keepout.otherChildren) {
+    const dsnLayer = (shape as { layer?: string | number }).layer
+
+    if (shape instanceof DsnCircle) {
+      shapes.push({
+        shape: "circle",
+        center: applyToPoint(matrix, { x: shape.x ?? 0, y: shape.y ?? 0 }),
+        radius: ((shape.diameter ?? 0) / 2) * dsnToMmScale,
+        dsnLayer,
+      })
+      continue
+    }
+
+    const points = getShapePoints(shape)
+    if (points.length === 0) continue
+
+    // Paths keep out their width around the centerline
+    const margin =
+      shape instanceof DsnPath ? ((shape.width ?? 0) / 2) * dsnToMmScale : 0
+
+    const transformedPoints = points.map((point) => applyToPoint(matrix, point))
+    const xs = transformedPoints.map((p) => p.x)
+    const ys = transformedPoints.map((p) => p.y)
+    const minX = Math.min(...xs) - margin
+    const maxX = Math.max(...xs) + margin
+    const minY = Math.min(...ys) - margin
+    const maxY = Math.max(...ys) + margin
+
+    shapes.push({
+      shape: "rect",
+      center: { x: (minX + maxX) / 2, y: (minY + maxY) / 2 },
+      width: maxX - minX,
+      height: maxY - minY,
+      dsnLayer,
+    })
+  }
+
+  return shapes
+}
+
+/**
+ * Returns the corner/vertex points of a rect, polygon or path in DSN units
+ */
+const getShapePoints = (shape: unknown): Array<{ x: number; y: number }> => {
+  if (shape instanceof DsnRect) {
+    const { x1, y1, x2, y2 } = shape
+    if (
+      x1 === undefined ||
+      y1 === undefined ||
+      x2 === undefined ||
+      y2 === undefined
+    ) {
+      return []
+    }
+    return [
+      { x: x1, y: y1 },
+      { x: x2, y: y1 },
+      { x: x2, y: y2 },
+      { x: x1, y: y2 },
+    ]
+  }
+
+  if (shape instanceof DsnPolygon || shape instanceof DsnPath) {
+    const coords = shape.coordinates
+    const points: Array<{ x: number; y: number }> = []
+    for (let i = 0; i + 1 < coords.length; i += 2) {
+      points.push({ x: coords[i]!, y: coords[i + 1]! })
+    }
+    return points
+  }
+
+  return []
+}
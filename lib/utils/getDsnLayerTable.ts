@@ -0,0 +1,134 @@
+import type { LayerRef } from "circuit-json"
+import type { SpectraDsn } from "dsnts"
+
+/**
+ * The copper layers of a DSN board in stackup order, mapped to circuit-json
+ * layers. The first layer is "top", the last is "bottom" and the layers in
+ * between are "inner1".."innerN".
+ */
+export interface DsnLayerTable {
+  /**
+   * circuit-json layers in stackup order, top first
+   */
+  layerRefs: LayerRef[]
+
+  /**
+   * Maps lowercased DSN layer names to circuit-json layers
+   */
+  layerRefByName: Map<string, LayerRef>
+}
+
+const DEFAULT_LAYER_NAMES = ["F.Cu", "B.Cu"]
+
+/**
+ * Builds the layer table from the (layer ...) entries of the DSN structure,
+ * in the order they're declared. Boards without layers are treated as two
+ * layer boards (F.Cu, B.Cu).
+ *
+ * layerMapping overrides the circuit-json layer of DSN layer names, e.g.
+ * { GND: "inner2" }. Names that aren't declared are still mapped.
+ */
+export function getDsnLayerTable(
+  dsn: SpectraDsn,
+  layerMapping: Record<string, LayerRef> = {},
+): DsnLayerTable {
+  const declaredNames = (dsn.structure?.layers ?? []).flatMap((layer) =>
+    layer.layerName ? [layer.layerName] : [],
+  )
+  const layerNames =
+    declaredNames.length > 0 ? declaredNames : DEFAULT_LAYER_NAMES
+
+  const layerRefByLowerName = new Map(
+    Object.entries(layerMapping).map(([layerName, layerRef]) => [
+      layerName.toLowerCase(),
+      layerRef,
+    ]),
+  )
+
+  const layerRefs = layerNames.map((layerName, index): LayerRef => {
+    const mappedLayerRef = layerRefByLowerName.get(layerName.toLowerCase())
+    if (mappedLayerRef) return mappedLayerRef
+    if (index === 0) return "top"
+    if (index === layerNames.length - 1) return "bottom"
+    return `inner${index}` as LayerRef
+  })
+
+  const layerRefByName = new Map<string, LayerRef>(layerRefByLowerName)
+  layerNames.forEach((layerName, index) => {
+    layerRefByName.set(layerName.toLowerCase(), layerRefs[index]!)
+  })
+
+  return { layerRefs, layerRefByName }
+}
+
+/**
+ * Maps a DSN/SES layer to a circuit-json layer using the layer table.
+ *
+ * Layers can be names from the structure (e.g. "In1.Cu") or 1-based layer
+ * numbers in stackup order. Unknown names fall back to KiCad naming: "B.Cu",
+ * "bottom" and "back" are the bottom layer, "In<n>.Cu" is inner layer n.
+ */
+export function mapDsnLayerToLayerRef(
+  layer: string | number | undefined,
+  layerTable: DsnLayerTable,
+  fallback: LayerRef = "top",
+): LayerRef {
+  if (layer === undefined || layer === "") return fallback
+
+  const layerNumber = typeof layer === "number" ? layer : Number(layer)
+  if (Number.isInteger(layerNumber)) {
+    return layerTable.layerRefs[layerNumber - 1] ?? fallback
+  }
+
+  const layerLower = String(layer).toLowerCase()
+  const layerRef = layerTable.layerRefByName.get(layerLower)
+  if (layerRef) return layerRef
+
+  if (
+    layerLower.includes("b.cu") ||
+    layerLower.includes("bottom") ||
+    layerLower.includes("back")
+  ) {
+    return "bottom"
+  }
+
+  const innerMatch = layerLower.match(/^in(\d+)\.cu$/)
+  if (innerMatch) return `inner${innerMatch[1]}` as LayerRef
+
+  if (layerLower.includes("f.cu") || layerLower.includes("top")) return "top"
+
+  return fallback
+}
+
+/**
+ * Returns the layers a via spans, in stackup order.
+ *
+ * KiCad names via padstacks after their layer span, e.g. "Via[0-3]_600:300_um"
+ * spans layers 0 to 3 (0-based). Otherwise the layers of the padstack shapes
+ * are used, and vias without either span all layers.
+ */
+export function getViaLayerRefs(
+  padstackId: string | undefined,
+  shapeLayers: Array<string | number | undefined>,
+  layerTable: DsnLayerTable,
+): LayerRef[] {
+  const { layerRefs } = layerTable
+
+  const spanMatch = padstackId?.match(/\[(\d+)-(\d+)\]/)
+  if (spanMatch) {
+    const from = Number(spanMatch[1])
+    const to = Number(spanMatch[2])
+    const span = layerRefs.slice(Math.min(from, to), Math.max(from, to) + 1)
+    if (span.length >= 2) return span
+  }
+
+  const shapeLayerRefs = new Set(
+    shapeLayers.flatMap((layer) =>
+      layer === undefined ? [] : [mapDsnLayerToLayerRef(layer, layerTable)],
+    ),
+  )
+  const span = layerRefs.filter((layerRef) => shapeLayerRefs.has(layerRef))
+  if (span.length >= 2) return span
+
+  return [...layerRefs]
+}
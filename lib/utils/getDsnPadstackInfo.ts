@@ -0,0 +1,262 @@
+import type { DsnPadstack } from "dsnts"
+import { DsnCircle, DsnPath, DsnPolygon, DsnRect } from "dsnts"
+import { mapDsnLayerToLayerRef, type DsnLayerTable } from "./getDsnLayerTable"
+import { getUnitToMmScale } from "./getUnitToMmScale"
+
+/**
+ * One (shape ...) of a padstack. Dimensions are in DSN units, offsets are
+ * relative to the pin position.
+ */
+export type DsnPadstackShape =
+  | {
+      shape: "circle"
+      layer?: string | number
+      diameter: number
+      offset: { x: number; y: number }
+    }
+  | {
+      shape: "rect"
+      layer?: string | number
+      width: number
+      height: number
+      offset: { x: number; y: number }
+    }
+  | {
+      shape: "polygon"
+      layer?: string | number
+      coordinates: number[]
+    }
+  | {
+      shape: "path"
+      layer?: string | number
+      width: number
+      coordinates: number[]
+    }
+
+/**
+ * Padstack shapes on every layer, with through-hole detection
+ */
+export interface DsnPadstackInfo {
+  /**
+   * Shapes in declaration order, usually one per copper layer
+   */
+  shapes: DsnPadstackShape[]
+
+  /**
+   * True when the padstack has copper on both outer layers (or on the
+   * "signal" layer, which means every layer)
+   */
+  isThroughHole: boolean
+
+  /**
+   * Drill diameter in mm, when the padstack name carries it. KiCad pad names
+   * don't.
+   */
+  holeDiameter?: number
+}
+
+/**
+ * Reads every (shape ...) of a padstack and detects through-hole pads.
+ *
+ * Specctra has no hole syntax, hole sizes come from the padstack name when
+ * the exporter encodes them. KiCad names vias "Via[0-1]_<outer>:<hole>_um",
+ * but its pad names only give the pad size (e.g. "Round[A]Pad_1700_um",
+ * "Oval[A]Pad_1700x2500_um"). Some exporters name drilled round pads
+ * "Round[A]Pad_<hole>_<outer>_um".
+ *
+ * When defaultPadSize (DSN units) is given, shapes without a size get it and
+ * padstacks without shapes get a circle of that diameter.
+ */
+export function getDsnPadstackInfo(
+  padstack: DsnPadstack,
+  layerTable: DsnLayerTable,
+  defaultPadSize?: number,
+): DsnPadstackInfo {
+  const shapes = getDsnPadstackShapes(padstack)
+  if (defaultPadSize !== undefined) {
+    applyDefaultPadSize(shapes, defaultPadSize)
+  }
+
+  const shapeLayers = new Set(
+    shapes.map((shape) =>
+      isAllLayers(shape.layer)
+        ? "all"
+        : mapDsnLayerToLayerRef(shape.layer, layerTable),
+    ),
+  )
+  const isThroughHole =
+    shapeLayers.has("all") ||
+    (shapeLayers.has("top") && shapeLayers.has("bottom"))
+
+  return {
+    shapes,
+    isThroughHole,
+    holeDiameter: getHoleDiameterFromPadstackName(
+      padstack.padstackId,
+      shapes[0],
+    ),
+  }
+}
+
+/**
+ * Reads the circle, rect, polygon or path of every (shape ...) of a
+ * padstack, in declaration order
+ */
+export function getDsnPadstackShapes(
+  padstack: DsnPadstack,
+): DsnPadstackShape[] {
+  const shapes: DsnPadstackShape[] = []
+
+  for (const shape of padstack.shapes) {
+    for (const child of shape.otherChildren) {
+      const padstackShape = getPadstackShape(child)
+      if (padstackShape) {
+        shapes.push(padstackShape)
+        break
+      }
+    }
+  }
+
+  return shapes
+}
+
+/**
+ * Returns the pad size (smallest outer dimension) of a shape in DSN units
+ */
+export function getPadstackShapeMinSize(shape: DsnPadstackShape): number {
+  switch (shape.shape) {
+    case "circle":
+      return shape.diameter
+    case "rect":
+      return Math.min(shape.width, shape.height)
+    case "path":
+      return shape.width
+    case "polygon": {
+      const { width, height } = getCoordinatesBoundsSize(shape.coordinates)
+      return Math.min(width, height)
+    }
+  }
+}
+
+function getPadstackShape(child: unknown): DsnPadstackShape | undefined {
+  if (child instanceof DsnCircle) {
+    return {
+      shape: "circle",
+      layer: child.layer,
+      diameter: child.diameter ?? 0,
+      offset: { x: child.x ?? 0, y: child.y ?? 0 },
+    }
+  }
+
+  if (child instanceof DsnRect) {
+    const x1 = child.x1 ?? 0
+    const y1 = child.y1 ?? 0
+    const x2 = child.x2 ?? 0
+    const y2 = child.y2 ?? 0
+    return {
+      shape: "rect",
+      layer: child.layer,
+      width: Math.abs(x2 - x1),
+      height: Math.abs(y2 - y1),
+      offset: { x: (x1 + x2) / 2, y: (y1 + y2) / 2 },
+    }
+  }
+
+  if (child instanceof DsnPolygon) {
+    return {
+      shape: "polygon",
+      layer: child.layer,
+      coordinates: child.coordinates,
+    }
+  }
+
+  if (child instanceof DsnPath) {
+    return {
+      shape: "path",
+      layer: child.layer,
+      width: child.width ?? 0,
+      coordinates: child.coordinates,
+    }
+  }
+
+  return undefined
+}
+
+function applyDefaultPadSize(
+  shapes: DsnPadstackShape[],
+  defaultPadSize: number,
+): void {
+  if (shapes.length === 0) {
+    shapes.push({
+      shape: "circle",
+      diameter: defaultPadSize,
+      offset: { x: 0, y: 0 },
+    })
+    return
+  }
+
+  for (const shape of shapes) {
+    if (shape.shape === "circle" && !shape.diameter) {
+      shape.diameter = defaultPadSize
+    } else if (shape.shape === "rect") {
+      if (!shape.width) shape.width = defaultPadSize
+      if (!shape.height) shape.height = defaultPadSize
+    } else if (shape.shape === "path" && !shape.width) {
+      shape.width = defaultPadSize
+    }
+  }
+}
+
+function isAllLayers(layer: string | number | undefined): boolean {
+  return typeof layer === "string" && layer.toLowerCase() === "signal"
+}
+
+/**
+ * Returns the bounding box size of flat [x1, y1, x2, y2, ...] coordinates
+ */
+export function getCoordinatesBoundsSize(coordinates: number[]): {
+  width: number
+  height: number
+} {
+  const xs = coordinates.filter((_, i) => i % 2 === 0)
+  const ys = coordinates.filter((_, i) => i % 2 === 1)
+  if (xs.length === 0 || ys.length === 0) return { width: 0, height: 0 }
+  return {
+    width: Math.max(...xs) - Math.min(...xs),
+    height: Math.max(...ys) - Math.min(...ys),
+  }
+}
+
+/**
+ * Reads the drill diameter (in mm) from KiCad style padstack names
+ */
+function getHoleDiameterFromPadstackName(
+  padstackId: string | undefined,
+  firstShape: DsnPadstackShape | undefined,
+): number | undefined {
+  if (!padstackId) return undefined
+
+  const unitMatch = padstackId.match(/_([a-z]+)$/i)
+  const unitToMm = getUnitToMmScale(unitMatch?.[1] ?? "um")
+
+  // "Via[0-1]_600:300_um"
+  const viaMatch = padstackId.match(/_([\d.]+):([\d.]+)_[a-z]+$/i)
+  if (viaMatch) return Number(viaMatch[2]) * unitToMm
+
+  // "Round[A]Pad_1000_1500_um", the drill is the size that isn't the pad
+  const padMatch = padstackId.match(/Pad_([\d.]+)_([\d.]+)_[a-z]+$/i)
+  if (padMatch) {
+    const first = Number(padMatch[1])
+    const second = Number(padMatch[2])
+    const padSize = firstShape ? getPadstackShapeMinSize(firstShape) : undefined
+    if (padSize !== undefined && Math.abs(second - padSize) < 1e-6) {
+      return first * unitToMm
+    }
+    if (padSize !== undefined && Math.abs(first - padSize) < 1e-6) {
+      return second * unitToMm
+    }
+    return Math.min(first, second) * unitToMm
+  }
+
+  return undefined
+}
@@ -0,0 +1,62 @@
+import {
+  compose,
+  rotateDEG,
+  scale,
+  translate,
+  type Matrix,
+} from "transformation-matrix"
+
+/**
+ * Returns the matrix that maps image (footprint) coordinates to board
+ * coordinates for a placed component.
+ *
+ * Specctra places back side components mirrored in X, then rotates them by
+ * the placement rotation and moves them to the placement position:
+ * board = translate(x, y) * rotate(rotation) * mirrorX(back) * image
+ *
+ * For placements in a circuit-json frame with a flipped Y axis (see
+ * YOrientation), the image is also mirrored in Y. The rotation is then the
+ * circuit-json rotation, the DSN rotation negated.
+ */
+export function getDsnPlacementMatrix(placement: {
+  x: number
+  y: number
+  rotation: number
+  isBackSide: boolean
+  isYFlipped?: boolean
+}): Matrix {
+  return compose(
+    translate(placement.x, placement.y),
+    rotateDEG(placement.rotation),
+    scale(placement.isBackSide ? -1 : 1, placement.isYFlipped ? -1 : 1),
+  )
+}
+
+/**
+ * Returns the matrix that maps padstack shape coordinates (relative to the
+ * pin) to board coordinates: the shape is rotated by the pin rotation, moved
+ * to the pin position and then placed like the rest of the image.
+ */
+export function getDsnPinShapeMatrix(
+  placementMatrix: Matrix,
+  pin: { x: number; y: number; rotation: number },
+): Matrix {
+  return compose(
+    placementMatrix,
+    translate(pin.x, pin.y),
+    rotateDEG(pin.rotation),
+  )
+}
+
+/**
+ * Returns the counter-clockwise angle (0-360 degrees) the matrix turns the
+ * X axis to. Shapes that are symmetric in X (rects, pills) end up rotated by
+ * this angle, mirrored or not.
+ */
+export function getMatrixRotationDegrees(matrix: Matrix): number {
+  const degrees = (Math.atan2(matrix.b, matrix.a) * 180) / Math.PI
+  const normalized = ((degrees % 360) + 360) % 360
+  // Snap floating point noise so quarter turns compare exactly
+  const snapped = Math.round(normalized * 1e9) / 1e9
+  return snapped === 360 ? 0 : snapped
+}
@@ -0,0 +1,55 @@
+import { DsnCircuit, DsnClearance, DsnRule, Width, type SxClass } from "dsnts"
+
+/**
+ * Trace width and clearance set by (rule ...) elements, in DSN units
+ */
+export interface DsnRuleValues {
+  width?: number
+  clearance?: number
+}
+
+/**
+ * Reads the width and general clearance of the (rule ...) elements among
+ * children, later rules overriding earlier ones.
+ *
+ * (rule (width 200) (clearance 150) (clearance 50 (type smd_smd)))
+ * -> { width: 200, clearance: 150 }
+ *
+ * Typed clearances (smd_smd, via_pin...) only apply to some object pairs and
+ * are ignored.
+ */
+export function getDsnRuleValues(children: SxClass[]): DsnRuleValues {
+  const values: DsnRuleValues = {}
+
+  for (const rule of children) {
+    if (!(rule instanceof DsnRule)) continue
+    for (const child of rule.otherChildren) {
+      if (child instanceof Width && typeof child.value === "number") {
+        values.width = child.value
+      } else if (
+        child instanceof DsnClearance &&
+        child.type === undefined &&
+        child.value !== undefined
+      ) {
+        values.clearance = child.value
+      }
+    }
+  }
+
+  return values
+}
+
+/**
+ * Returns the via padstack a class routes with, from its
+ * (circuit (use_via <padstack_id>))
+ */
+export function getDsnClassViaPadstackId(
+  children: SxClass[],
+): string | undefined {
+  for (const child of children) {
+    if (!(child instanceof DsnCircuit)) continue
+    const useVia = child.settings.use_via
+    if (typeof useVia === "string" && useVia.length > 0) return useVia
+  }
+  return undefined
+}
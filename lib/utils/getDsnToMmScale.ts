@@ -0,0 +1,59 @@
+import { DsnUnit, Unit, type SpectraDsn, type SxClass } from "dsnts"
+import { getUnitToMmScale } from "./getUnitToMmScale"
+
+/**
+ * Find a (unit ...) child inside a DSN section, e.g. (structure (unit mil) ...).
+ * dsnts parses it as a DsnUnit at the pcb level and as its KiCad Unit class
+ * inside sections, both keep the unit name as their value.
+ */
+const findSectionUnit = (
+  children: SxClass[] | undefined,
+): string | undefined => {
+  for (const child of children ?? []) {
+    if (!(child instanceof DsnUnit || child instanceof Unit)) continue
+    const value: string | undefined = child.value
+    if (typeof value === "string" && value.length > 0) return value
+  }
+  return undefined
+}
+
+/**
+ * Resolve the unit that DSN board coordinates (structure, placement, wiring)
+ * are expressed in.
+ *
+ * A (unit ...) declared inside structure overrides the pcb-level (unit ...),
+ * which in turn overrides the unit of (resolution <unit> <value>). The
+ * resolution value only sets the precision of a coordinate, not its unit.
+ */
+export function getDsnUnit(dsn: SpectraDsn): string {
+  return (
+    findSectionUnit(dsn.structure?.otherChildren) ??
+    dsn.unit ??
+    dsn.resolution?.unit ??
+    "um"
+  )
+}
+
+/**
+ * Resolve the unit of library geometry: image pin positions, image keepouts
+ * and padstack shapes. A (unit ...) inside library only applies there,
+ * otherwise library geometry uses the board unit.
+ */
+export function getDsnLibraryUnit(dsn: SpectraDsn): string {
+  return findSectionUnit(dsn.library?.otherChildren) ?? getDsnUnit(dsn)
+}
+
+/**
+ * Returns the number of millimeters in one DSN board coordinate unit.
+ * e.g. (resolution um 10) (unit um) -> 0.001, (resolution mil 10) -> 0.0254
+ */
+export function getDsnToMmScale(dsn: SpectraDsn): number {
+  return getUnitToMmScale(getDsnUnit(dsn))
+}
+
+/**
+ * Returns the number of millimeters in one DSN library coordinate unit
+ */
+export function getDsnLibraryToMmScale(dsn: SpectraDsn): number {
+  return getUnitToMmScale(getDsnLibraryUnit(dsn))
+}
@@ -0,0 +1,38 @@
+import type { SpectraDsn } from "dsnts"
+import { compose, translate, type Matrix } from "transformation-matrix"
+import { getDsnBoardCenter } from "./getDsnBoardCenter"
+import { getDsnToMmScale } from "./getDsnToMmScale"
+import {
+  getYOrientationMatrix,
+  type YOrientation,
+} from "./getYOrientationMatrix"
+
+/**
+ * Where the DSN board lands in circuit-json:
+ * - "center": the center of the board boundary is at the origin
+ * - "dsn": the DSN origin is kept
+ * - { offset }: the DSN origin is moved by the offset, in circuit-json mm
+ */
+export type DsnOrigin = "center" | "dsn" | { offset: { x: number; y: number } }
+
+/**
+ * Returns the matrix that maps DSN/SES coordinates already scaled to mm to
+ * circuit-json coordinates: it moves the origin, then applies the
+ * yOrientation. Custom offsets apply last, in the circuit-json frame.
+ */
+export function getMmToCircuitJsonMatrix(
+  dsn: SpectraDsn,
+  opts: { origin?: DsnOrigin; yOrientation?: YOrientation } = {},
+): Matrix {
+  const { origin = "center", yOrientation } = opts
+  const dsnToMmScale = getDsnToMmScale(dsn)
+  const boardCenter =
+    origin === "center" ? getDsnBoardCenter(dsn) : { x: 0, y: 0 }
+  const offset = typeof origin === "object" ? origin.offset : { x: 0, y: 0 }
+
+  return compose(
+    translate(offset.x, offset.y),
+    getYOrientationMatrix(yOrientation),
+    translate(-boardCenter.x * dsnToMmScale, -boardCenter.y * dsnToMmScale),
+  )
+}
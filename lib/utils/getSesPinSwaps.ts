@@ -0,0 +1,20 @@
+import { DsnPins, type SpectraSes } from "dsnts"
+
+/**
+ * Returns the pin swaps recorded in the SES was_is section, mapping the pin
+ * reference used in the DSN network ("was") to the pin that actually got
+ * routed in its place ("is").
+ *
+ * Format: (was_is (pins <was_pin_ref> <is_pin_ref>) ...)
+ */
+export function getSesPinSwaps(ses: SpectraSes): Map<string, string> {
+  const pinSwaps = new Map<string, string>()
+
+  for (const child of ses.wasIs?.otherChildren ?? []) {
+    if (!(child instanceof DsnPins)) continue
+    const [wasPinRef, isPinRef] = child.pinRefs
+    if (wasPinRef && isPinRef) pinSwaps.set(wasPinRef, isPinRef)
+  }
+
+  return pinSwaps
+}
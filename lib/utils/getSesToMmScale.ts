@@ -0,0 +1,40 @@
+import type { SpectraSes } from "dsnts"
+import { getUnitToMmScale } from "./getUnitToMmScale"
+
+/**
+ * Resolve the resolution SES route coordinates are expressed in.
+ * Uses (routes (resolution ...)), then (placement (resolution ...)), and
+ * defaults to (resolution mil 1000).
+ */
+export function getSesResolution(ses: SpectraSes): {
+  unit: string
+  value: number
+} {
+  const resolution = ses.routes?.resolution ?? ses.placement?.resolution
+  if (!resolution?.unit) {
+    return { unit: "mil", value: 1000 }
+  }
+  return { unit: resolution.unit, value: resolution.value || 1 }
+}
+
+/**
+ * Returns the number of millimeters in one SES coordinate step.
+ *
+ * Unlike DSN, SES coordinates are integers counted in resolution steps, so
+ * (resolution um 10) means one coordinate unit is 0.1μm (1/10000 mm).
+ */
+export function getSesToMmScale(ses: SpectraSes): number {
+  const { unit, value } = getSesResolution(ses)
+  return getUnitToMmScale(unit, "mil") / value
+}
+
+/**
+ * Returns the number of millimeters in one SES placement coordinate step.
+ * The placement section can declare its own (resolution ...), otherwise the
+ * route resolution applies.
+ */
+export function getSesPlacementToMmScale(ses: SpectraSes): number {
+  const resolution = ses.placement?.resolution
+  if (!resolution?.unit) return getSesToMmScale(ses)
+  return getUnitToMmScale(resolution.unit, "mil") / (resolution.value || 1)
+}
@@ -0,0 +1,26 @@
+/**
+ * Millimeters spanned by one of each unit name used in Specctra DSN/SES files.
+ */
+const MM_PER_UNIT: Record<string, number> = {
+  um: 0.001,
+  mm: 1,
+  cm: 10,
+  mil: 0.0254,
+  in: 25.4,
+  inch: 25.4,
+}
+
+/**
+ * Returns the number of millimeters in one of the given Specctra unit.
+ * Unknown or missing units fall back to `fallbackUnit`.
+ */
+export function getUnitToMmScale(
+  unit: string | undefined,
+  fallbackUnit = "um",
+): number {
+  const normalizedUnit = unit?.toLowerCase()
+  if (normalizedUnit && normalizedUnit in MM_PER_UNIT) {
+    return MM_PER_UNIT[normalizedUnit]!
+  }
+  return MM_PER_UNIT[fallbackUnit] ?? MM_PER_UNIT.um!
+}
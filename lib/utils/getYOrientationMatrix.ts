@@ -0,0 +1,32 @@
+import { scale, type Matrix } from "transformation-matrix"
+
+/**
+ * How DSN and SES Y coordinates map to circuit-json Y.
+ *
+ * Specctra and circuit-json both have Y increasing upward. KiCad's Y axis
+ * points down, and its exporter negates Y when writing the DSN, so "preserve"
+ * renders boards with the same handedness as in KiCad. "flip" negates Y, for
+ * consumers that expect Y increasing downward.
+ */
+export type YOrientation = "preserve" | "flip"
+
+/**
+ * Returns the matrix applied after scaling DSN/SES coordinates to mm
+ */
+export function getYOrientationMatrix(
+  yOrientation: YOrientation = "preserve",
+): Matrix {
+  return scale(1, yOrientation === "flip" ? -1 : 1)
+}
+
+/**
+ * Converts a counter-clockwise DSN/SES placement rotation (degrees) to the
+ * circuit-json rotation. Flipping Y reverses the direction of rotations.
+ */
+export function getCircuitJsonRotation(
+  rotation: number,
+  yOrientation: YOrientation = "preserve",
+): number {
+  if (yOrientation !== "flip") return rotation
+  return ((-rotation % 360) + 360) % 360
+}
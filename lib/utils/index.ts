@@ -0,0 +1,21 @@
+export * from "./getUnitToMmScale"
+export * from "./getDsnToMmScale"
+export * from "./getSesToMmScale"
+export * from "./getDsnBoardCenter"
+export * from "./SesWasIsPins"
+export * from "./getSesPinSwaps"
+export * from "./getDsnLayerTable"
+export * from "./DsnKeepoutKinds"
+export * from "./getDsnKeepoutShapes"
+export * from "./DsnNetRule"
+export * from "./DsnNetPins"
+export * from "./DsnWireDescriptors"
+export * from "./parseSpectra"
+export * from "./resolveDsnPinRef"
+export * from "./getDsnPadstackInfo"
+export * from "./getDsnPlacementMatrix"
+export * from "./getYOrientationMatrix"
+export * from "./getMmToCircuitJsonMatrix"
+export * from "./getDsnRuleValues"
+export * from "./ConverterDiagnostic"
+export * from "./UnresolvedReferenceError"
@@ -0,0 +1,66 @@
+import {
+  parseSpectraDsn,
+  parseSpectraSes,
+  SxClass,
+  type SpectraDsn,
+  type SpectraSes,
+} from "dsnts"
+import { DSN_KEEPOUT_KIND_CLASSES } from "./DsnKeepoutKinds"
+import { DsnNetPins } from "./DsnNetPins"
+import { DsnNetRule } from "./DsnNetRule"
+import { DSN_WIRE_DESCRIPTOR_CLASSES } from "./DsnWireDescriptors"
+import { SesWasIsPins } from "./SesWasIsPins"
+
+/**
+ * Parses a DSN file with dsnts, also reading what dsnts doesn't know:
+ * via_keepout, wire_keepout and place_keepout (see DsnKeepoutKinds),
+ * (rule ...) inside nets (see DsnNetRule), quoted net pin references
+ * (see DsnNetPins) and wire descriptors like (attr ...) or (shield ...)
+ * (see DsnWireDescriptor).
+ */
+export function parseDsn(dsnString: string): SpectraDsn {
+  return withParserClasses(
+    [
+      ...DSN_KEEPOUT_KIND_CLASSES,
+      ...DSN_WIRE_DESCRIPTOR_CLASSES,
+      DsnNetRule,
+      DsnNetPins,
+    ],
+    () => parseSpectraDsn(dsnString),
+  )
+}
+
+/**
+ * Parses an SES file with dsnts, also reading the (pins ...) pairs of the
+ * was_is section (see SesWasIsPins) and wire descriptors (see
+ * DsnWireDescriptor)
+ */
+export function parseSes(sesString: string): SpectraSes {
+  return withParserClasses([...DSN_WIRE_DESCRIPTOR_CLASSES, SesWasIsPins], () =>
+    parseSpectraSes(sesString),
+  )
+}
+
+/**
+ * dsnts picks the class of each token from a global registry. The classes
+ * are only registered while parsing, so importing this package doesn't
+ * change how dsnts parses for anyone else.
+ */
+const withParserClasses = <T>(
+  parserClasses: Array<{ token: string; parentToken?: string }>,
+  parse: () => T,
+): T => {
+  const registeredClasses = SxClass.classes
+  SxClass.classes = Object.fromEntries(
+    Object.entries(registeredClasses).map(([token, classByParentToken]) => [
+      token,
+      { ...classByParentToken },
+    ]),
+  )
+  try {
+    for (const parserClass of parserClasses) SxClass.register(parserClass)
+    return parse()
+  } finally {
+    SxClass.classes = registeredClasses
+  }
+}
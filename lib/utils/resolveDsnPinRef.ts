@@ -0,0 +1,28 @@
+/**
+ * Splits a DSN pin reference ("<component_ref>-<pin_id>") into its
+ * component ref and pin id.
+ *
+ * Component refs and pin ids may contain dashes themselves, e.g. component
+ * "U1-A" and pin "B-3" in "U1-A-B-3". The reference is split at the dash
+ * giving the longest component ref that exists and has the pin.
+ *
+ * Returns undefined when no split matches a pin of a known component.
+ */
+export function resolveDsnPinRef(
+  pinRef: string,
+  pinIdsByComponentRef: ReadonlyMap<string, { has(pinId: string): boolean }>,
+): { componentRef: string; pinId: string } | undefined {
+  for (
+    let dashIndex = pinRef.lastIndexOf("-");
+    dashIndex > 0;
+    dashIndex = pinRef.lastIndexOf("-", dashIndex - 1)
+  ) {
+    const componentRef = pinRef.slice(0, dashIndex)
+    const pinId = pinRef.slice(dashIndex + 1)
+    if (pinIdsByComponentRef.get(componentRef)?.has(pinId)) {
+      return { componentRef, pinId }
+    }
+  }
+
+  return undefined
+}
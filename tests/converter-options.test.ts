@@ -0,0 +1,158 @@
+import { expect, test } from "bun:test"
+import { cju } from "@tscircuit/circuit-json-util"
+import { convertDsnToCircuitJson } from "../lib/dsn-to-circuit-json"
+import { convertDsnAndSesToCircuitJson } from "../lib/convertDsnAndSesToCircuitJson"
+import { convertSesToCircuitJson } from "../lib/ses-to-circuit-json"
+
+const dsnContent = `(pcb test.dsn
+  (resolution um 10)
+  (unit um)
+  (structure
+    (layer F.Cu (type signal))
+    (layer B.Cu (type signal))
+    (boundary (path pcb 0 10000 10000 30000 10000 30000 20000 10000 20000 10000 10000))
+  )
+  (placement
+    (component pad1
+      (place J1 12000 15000 front 0)
+      (place J2 28000 15000 front 0)
+    )
+  )
+  (library
+    (image pad1
+      (pin rect_pad 1 0 0)
+      (pin empty_pad 2 0 2000)
+    )
+    (padstack rect_pad
+      (shape (rect B.Cu -400 -200 400 200))
+    )
+    (padstack empty_pad)
+  )
+  (network
+    (net N1 (pins J1-1 J2-1))
+  )
+  (wiring
+    (wire (path B.Cu 300 12000 15000 28000 15000) (net N1))
+  )
+)`
+
+const sesContent = `(session test.ses
+  (base_design test.dsn)
+  (routes
+    (resolution um 10)
+    (parser)
+    (network_out
+      (net N1
+        (wire (path B.Cu 3000 120000 150000 280000 150000))
+      )
+    )
+  )
+)`
+
+test("origin option keeps or offsets the DSN origin", () => {
+  const getJ1Center = (
+    circuitJson: ReturnType<typeof convertDsnToCircuitJson>,
+  ) => cju(circuitJson).pcb_component.list()[0]!.center
+
+  expect(getJ1Center(convertDsnToCircuitJson(dsnContent))).toEqual({
+    x: -8,
+    y: 0,
+  })
+  expect(
+    getJ1Center(convertDsnToCircuitJson(dsnContent, { origin: "dsn" })),
+  ).toEqual({ x: 12, y: 15 })
+  expect(
+    getJ1Center(
+      convertDsnToCircuitJson(dsnContent, {
+        origin: { offset: { x: 1, y: -2 } },
+      }),
+    ),
+  ).toEqual({ x: 13, y: 13 })
+})
+
+test("board thickness, fallback pad size and component ftype options", () => {
+  const db = cju(
+    convertDsnToCircuitJson(dsnContent, {
+      boardThickness: 0.8,
+      defaultPadSize: 0.5,
+      defaultComponentFtype: "simple_pin_header",
+    }),
+  )
+
+  expect(db.pcb_board.list()[0]!.thickness).toBe(0.8)
+  expect(db.source_component.list().map((c) => c.ftype)).toEqual([
+    "simple_pin_header",
+    "simple_pin_header",
+  ])
+
+  // The padstack without shapes becomes a circle of the fallback size
+  const circlePads = db.pcb_smtpad
+    .list()
+    .filter((pad) => pad.shape === "circle")
+  expect(circlePads).toHaveLength(2)
+  expect(circlePads[0]).toMatchObject({ radius: 0.25, layer: "top" })
+})
+
+test("layer mapping overrides DSN layers", () => {
+  const db = cju(
+    convertDsnToCircuitJson(dsnContent, { layerMapping: { "B.Cu": "top" } }),
+  )
+
+  const rectPads = db.pcb_smtpad.list().filter((pad) => pad.shape === "rect")
+  expect(rectPads.map((pad) => pad.layer)).toEqual(["top", "top"])
+  expect(db.pcb_trace.list()[0]!.route[0]).toMatchObject({ layer: "top" })
+})
+
+test("emit option skips element categories", () => {
+  const db = cju(
+    convertDsnToCircuitJson(dsnContent, {
+      emit: { traces: false, board: false },
+    }),
+  )
+
+  expect(db.pcb_trace.list()).toHaveLength(0)
+  expect(db.pcb_board.list()).toHaveLength(0)
+  expect(db.pcb_smtpad.list()).toHaveLength(4)
+  expect(db.source_trace.list()).toHaveLength(1)
+})
+
+test("SES routes follow the origin option when merging", () => {
+  const db = cju(
+    convertDsnAndSesToCircuitJson(
+      dsnContent.replace(/\(wiring[\s\S]*?\n {2}\)\n/, ""),
+      sesContent,
+      { origin: "dsn" },
+    ),
+  )
+
+  const [trace] = db.pcb_trace.list()
+  expect(trace!.route[0]).toMatchObject({ x: 12, y: 15 })
+  expect(db.pcb_trace_error.list()).toHaveLength(0)
+})
+
+test("SES routes follow the layer mapping when merging", () => {
+  const db = cju(
+    convertDsnAndSesToCircuitJson(
+      dsnContent.replace(/\(wiring[\s\S]*?\n {2}\)\n/, ""),
+      sesContent,
+      { layerMapping: { "F.Cu": "bottom", "B.Cu": "top" } },
+    ),
+  )
+
+  const rectPads = db.pcb_smtpad.list().filter((pad) => pad.shape === "rect")
+  expect(rectPads.map((pad) => pad.layer)).toEqual(["top", "top"])
+  const [trace] = db.pcb_trace.list()
+  expect(
+    trace!.route.map((point) => point.route_type === "wire" && point.layer),
+  ).toEqual(["top", "top"])
+  expect(db.pcb_trace_error.list()).toHaveLength(0)
+})
+
+test("SES conversion without circuit JSON centers the board by default", () => {
+  const dsnWithoutWiring = dsnContent.replace(/\(wiring[\s\S]*?\n {2}\)\n/, "")
+  const db = cju(convertSesToCircuitJson(sesContent, dsnWithoutWiring))
+
+  expect(db.pcb_component.list()[0]!.center).toEqual({ x: -8, y: 0 })
+  expect(db.pcb_trace.list()[0]!.route[0]).toMatchObject({ x: -8, y: 0 })
+  expect(db.pcb_trace_error.list()).toHaveLength(0)
+})
@@ -0,0 +1,237 @@
+import { expect, test } from "bun:test"
+import { cju } from "@tscircuit/circuit-json-util"
+import { DsnToCircuitJsonConverter } from "../lib/dsn-to-circuit-json"
+import { SesToCircuitJsonConverter } from "../lib/ses-to-circuit-json/SesToCircuitJsonConverter"
+import { convertDsnToCircuitJson } from "../lib/dsn-to-circuit-json"
+import { convertSesToCircuitJson } from "../lib/ses-to-circuit-json"
+import {
+  UnknownImageError,
+  UnknownNetError,
+  UnknownPadstackError,
+  UnresolvedPinRefError,
+} from "../lib"
+
+const dsnContent = `(pcb test.dsn
+  (resolution um 10)
+  (unit um)
+  (structure
+    (layer F.Cu (type signal))
+    (layer B.Cu (type signal))
+    (boundary (path pcb 0 -10000 -10000 10000 -10000 10000 10000 -10000 10000 -10000 -10000))
+  )
+  (placement
+    (component pad2
+      (place U1 0 0 front 0)
+    )
+    (component missing_image
+      (place U2 5000 0 front 0)
+    )
+  )
+  (library
+    (image pad2
+      (pin rect_pad 1 -1000 0)
+      (pin missing_pad 2 1000 0)
+      (pin empty_pad 3 0 1000)
+    )
+    (padstack rect_pad
+      (shape (rect F.Cu -400 -200 400 200))
+    )
+    (padstack empty_pad)
+  )
+  (network
+    (net SIG (pins U1-1 U1-2 U3-1))
+  )
+  (wiring
+    (wire (path F.Cu 200 -1000 0 0 5000) (net SIG))
+    (wire (polygon F.Cu 0 0 0 100 0 100 100) (net SIG))
+  )
+)`
+
+const sesContent = `(session test.ses
+  (base_design test.dsn)
+  (placement
+    (resolution um 10)
+    (component pad2
+      (place U1 0 0 front 0)
+      (place U9 0 0 front 0)
+    )
+  )
+  (was_is
+    (pins U1-1 U9-1)
+  )
+  (routes
+    (resolution um 10)
+    (parser)
+    (network_out
+      (net OTHER
+        (wire (path F.Cu 2000 -10000 50000 10000 50000))
+        (via "Via[0-1]_600:300_um" 0 70000)
+      )
+    )
+  )
+)`
+
+test("DSN converter reports what it couldn't convert", () => {
+  const converter = new DsnToCircuitJsonConverter(dsnContent)
+  converter.runUntilFinished()
+
+  expect(
+    converter
+      .getDiagnostics()
+      .map(({ code, severity, sourcePath }) => [code, severity, sourcePath]),
+  ).toEqual([
+    ["unknown_image", "error", "placement/component missing_image/place U2"],
+    ["unknown_padstack", "error", "library/image pad2/pin 2"],
+    ["unresolved_pin_ref", "error", "network/net SIG/pins"],
+    ["unresolved_pin_ref", "error", "network/net SIG/pins"],
+    ["unsupported_wire_child", "warning", "wiring/wire/polygon"],
+  ])
+  expect(converter.getDiagnostics()[3]!.message).toContain("U3-1")
+})
+
+test("SES converter reports what it couldn't merge", () => {
+  const converter = new SesToCircuitJsonConverter(sesContent, dsnContent, {
+    circuitJson: convertDsnToCircuitJson(dsnContent),
+  })
+  converter.runUntilFinished()
+
+  expect(
+    converter
+      .getDiagnostics()
+      .map(({ code, severity, sourcePath }) => [code, severity, sourcePath]),
+  ).toEqual([
+    ["unknown_component", "error", "placement/component pad2/place U9"],
+    ["unresolved_pin_ref", "error", "was_is/pins U1-1 U9-1"],
+    ["unknown_padstack", "error", "library/image pad2/pin 2"],
+    ["padstack_without_shape", "warning", "library/image pad2/pin 3"],
+    ["unknown_image", "error", "placement/component missing_image/place U2"],
+    ["unknown_net", "warning", "routes/network_out/net OTHER"],
+    ["dangling_route", "warning", "routes/network_out/net OTHER"],
+    ["dangling_route", "warning", "routes/network_out/net OTHER"],
+  ])
+})
+
+test("SES converter doesn't repeat the DSN diagnostics of skipped pads", () => {
+  const converter = new SesToCircuitJsonConverter(sesContent, dsnContent)
+  converter.runUntilFinished()
+
+  const codes = converter.getDiagnostics().map(({ code }) => code)
+  expect(codes.filter((code) => code === "unknown_image")).toHaveLength(1)
+  expect(codes.filter((code) => code === "unknown_padstack")).toHaveLength(1)
+})
+
+test("wire descriptors parse, only the ones that matter are reported", () => {
+  const converter = new DsnToCircuitJsonConverter(
+    dsnContent.replace(
+      "(wire (path F.Cu 200 -1000 0 0 5000) (net SIG))",
+      `(wire (path F.Cu 200 -1000 0 0 5000) (net SIG)
+      (clearance_class default) (attr test) (shield GND) (turret 1)
+      (connect (terminal U1-1 U3-1)))`,
+    ),
+  )
+  converter.runUntilFinished()
+
+  expect(
+    converter.getOutput().filter((el) => el.type === "pcb_trace"),
+  ).toHaveLength(1)
+  expect(
+    converter
+      .getDiagnostics()
+      .filter(({ code }) => code === "unsupported_wire_child")
+      .map(({ severity, sourcePath }) => [severity, sourcePath]),
+  ).toEqual([
+    ["warning", "wiring/wire/turret"],
+    ["warning", "wiring/wire/connect"],
+    ["warning", "wiring/wire/polygon"],
+  ])
+})
+
+test("unresolved net pins become source_trace_not_connected_errors", () => {
+  const db = cju(convertDsnToCircuitJson(dsnContent))
+
+  const sourceTrace = db.source_trace.list()[0]!
+  expect(db.source_trace_not_connected_error.list()).toEqual([
+    {
+      type: "source_trace_not_connected_error",
+      source_trace_not_connected_error_id: expect.any(String),
+      error_type: "source_trace_not_connected_error",
+      message: expect.stringContaining("Net SIG"),
+      source_trace_id: sourceTrace.source_trace_id,
+      connected_source_port_ids: sourceTrace.connected_source_port_ids,
+      selectors_not_found: ["U1-2", "U3-1"],
+    },
+  ])
+  expect(sourceTrace.connected_source_port_ids).toHaveLength(1)
+})
+
+test("strict mode throws on unresolved references", () => {
+  expect(() => convertDsnToCircuitJson(dsnContent, { strict: true })).toThrow(
+    UnknownImageError,
+  )
+  expect(() =>
+    convertDsnToCircuitJson(
+      `(pcb test.dsn
+  (resolution um 10)
+  (placement
+    (component pad2
+      (place U1 0 0 front 0)
+    )
+  )
+  (library
+    (image pad2
+      (pin missing_pad 1 0 0)
+    )
+  )
+)`,
+      { strict: true },
+    ),
+  ).toThrow(UnknownPadstackError)
+
+  const unresolvedPinDsnContent = `(pcb test.dsn
+  (resolution um 10)
+  (placement
+    (component pad2
+      (place U1 0 0 front 0)
+    )
+  )
+  (library
+    (image pad2
+      (pin rect_pad 1 0 0)
+    )
+    (padstack rect_pad
+      (shape (rect F.Cu -400 -200 400 200))
+    )
+  )
+  (network
+    (net SIG (pins U1-1 U3-1))
+  )
+)`
+
+  let error: unknown
+  try {
+    convertDsnToCircuitJson(unresolvedPinDsnContent, { strict: true })
+  } catch (e) {
+    error = e
+  }
+  expect(error).toBeInstanceOf(UnresolvedPinRefError)
+  expect((error as UnresolvedPinRefError).diagnostic.sourcePath).toBe(
+    "network/net SIG/pins",
+  )
+
+  expect(() =>
+    convertSesToCircuitJson(
+      `(session test.ses
+  (routes
+    (resolution um 10)
+    (network_out
+      (net OTHER
+        (wire (path F.Cu 2000 -10000 50000 10000 50000))
+      )
+    )
+  )
+)`,
+      unresolvedPinDsnContent,
+      { strict: true },
+    ),
+  ).toThrow(UnknownNetError)
+})
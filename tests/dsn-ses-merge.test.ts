@@ -0,0 +1,104 @@
+import { resolve } from "node:path"
+import { readFile } from "node:fs/promises"
+import { expect, test } from "bun:test"
+import type { PcbPort, PcbTrace } from "circuit-json"
+import { convertDsnAndSesToCircuitJson } from "../lib/convertDsnAndSesToCircuitJson"
+import { convertSesToCircuitJson } from "../lib/ses-to-circuit-json"
+
+test("SES routes are merged onto the DSN board and linked to its ports", async () => {
+  const dsnContent = await readFile(
+    resolve("pages/repros/repro01/assets/motor_driver_input.dsn"),
+    "utf-8",
+  )
+  const sesContent = await readFile(
+    resolve("pages/repros/repro01/assets/output.ses"),
+    "utf-8",
+  )
+
+  const circuitJson = convertDsnAndSesToCircuitJson(dsnContent, sesContent)
+
+  expect(circuitJson.filter((el) => el.type === "pcb_board")).toHaveLength(1)
+
+  const sourceTraceIds = new Set(
+    circuitJson.flatMap((el) =>
+      el.type === "source_trace" ? [el.source_trace_id] : [],
+    ),
+  )
+  const pcbPorts = new Map(
+    circuitJson
+      .filter((el): el is PcbPort => el.type === "pcb_port")
+      .map((port) => [port.pcb_port_id, port]),
+  )
+  const traces = circuitJson.filter(
+    (el): el is PcbTrace => el.type === "pcb_trace",
+  )
+  expect(traces.length).toBeGreaterThan(0)
+
+  for (const trace of traces) {
+    expect(sourceTraceIds.has(trace.source_trace_id!)).toBe(true)
+  }
+
+  // Trace endpoints reference the DSN ports and sit on their pads
+  const endpointPorts = traces.flatMap((trace) =>
+    trace.route.flatMap((point) => {
+      if (point.route_type !== "wire") return []
+      return [point.start_pcb_port_id, point.end_pcb_port_id].flatMap(
+        (portId) => (portId ? [{ routePoint: point, portId }] : []),
+      )
+    }),
+  )
+  expect(endpointPorts.length).toBeGreaterThan(0)
+
+  for (const { routePoint, portId } of endpointPorts) {
+    const port = pcbPorts.get(portId)!
+    expect(port).toBeDefined()
+    expect(
+      Math.hypot(port.x - routePoint.x, port.y - routePoint.y),
+    ).toBeLessThan(1)
+  }
+})
+
+test("SES converted without DSN circuit JSON includes the board and ports its traces use", async () => {
+  const dsnContent = await readFile(
+    resolve("pages/repros/repro01/assets/motor_driver_input.dsn"),
+    "utf-8",
+  )
+  const sesContent = await readFile(
+    resolve("pages/repros/repro01/assets/output.ses"),
+    "utf-8",
+  )
+
+  const circuitJson = convertSesToCircuitJson(sesContent, dsnContent)
+
+  expect(circuitJson.filter((el) => el.type === "pcb_board")).toHaveLength(1)
+
+  const pcbPortIds = new Set(
+    circuitJson.flatMap((el) =>
+      el.type === "pcb_port" ? [el.pcb_port_id] : [],
+    ),
+  )
+  const endpointPortIds = circuitJson.flatMap((el) =>
+    el.type === "pcb_trace"
+      ? el.route.flatMap((point) =>
+          point.route_type === "wire"
+            ? [point.start_pcb_port_id, point.end_pcb_port_id].filter(
+                (portId): portId is string => portId !== undefined,
+              )
+            : [],
+        )
+      : [],
+  )
+  expect(endpointPortIds.length).toBeGreaterThan(0)
+  for (const portId of endpointPortIds) {
+    expect(pcbPortIds.has(portId)).toBe(true)
+  }
+
+  // The DSN origin is kept, like merging into DSN circuit JSON with it
+  const getRoutes = (elements: typeof circuitJson) =>
+    elements.flatMap((el) => (el.type === "pcb_trace" ? [el.route] : []))
+  expect(getRoutes(circuitJson)).toEqual(
+    getRoutes(
+      convertDsnAndSesToCircuitJson(dsnContent, sesContent, { origin: "dsn" }),
+    ),
+  )
+})
@@ -0,0 +1,151 @@
+import { expect, test } from "bun:test"
+import type { PcbSmtPadRect, PcbTrace } from "circuit-json"
+import { convertDsnToCircuitJson } from "../lib/dsn-to-circuit-json/DsnToCircuitJsonConverter"
+import { convertDsnAndSesToCircuitJson } from "../lib/convertDsnAndSesToCircuitJson"
+
+const createDsn = ({
+  resolution,
+  structureUnit,
+  libraryUnit,
+  withWiring = true,
+}: {
+  resolution: string
+  structureUnit?: string
+  libraryUnit?: string
+  withWiring?: boolean
+}) => `(pcb units.dsn
+  (parser (host_cad "KiCad's Pcbnew"))
+  (resolution ${resolution})
+  (structure
+    ${structureUnit ? `(unit ${structureUnit})` : ""}
+    (layer F.Cu (type signal))
+    (layer B.Cu (type signal))
+    (boundary (rect pcb 0 0 1000 500))
+  )
+  (placement
+    (component R_0603
+      (place R1 500 250 front 0)
+    )
+  )
+  (library
+    ${libraryUnit ? `(unit ${libraryUnit})` : ""}
+    (image R_0603
+      (pin Pad_40x40 1 -50 0)
+      (pin Pad_40x40 2 50 0)
+    )
+    (padstack Pad_40x40
+      (shape (rect F.Cu -20 -20 20 20))
+      (attach off)
+    )
+  )
+  (network
+    (net N1 (pins R1-1 R1-2))
+  )
+  ${
+    withWiring
+      ? `(wiring
+    (wire (path F.Cu 10 450 250 550 250) (net N1))
+  )`
+      : ""
+  }
+)`
+
+test("dsn coordinates, widths and pad sizes honor a mil resolution", () => {
+  const circuitJson = convertDsnToCircuitJson(
+    createDsn({ resolution: "mil 10" }),
+  )
+
+  const pads = circuitJson.filter(
+    (e): e is PcbSmtPadRect => e.type === "pcb_smtpad",
+  )
+  expect(pads.map((p) => p.x)).toEqual([-1.27, 1.27])
+  expect(pads[0]).toMatchObject({ width: 1.016, height: 1.016 })
+
+  const trace = circuitJson.find((e): e is PcbTrace => e.type === "pcb_trace")
+  expect(trace?.route[0]).toMatchObject({ x: -1.27, width: 0.254 })
+})
+
+test("structure (unit) overrides the resolution unit", () => {
+  const circuitJson = convertDsnToCircuitJson(
+    createDsn({ resolution: "um 10", structureUnit: "mil" }),
+  )
+
+  const board = circuitJson.find((e) => e.type === "pcb_board")
+  expect(board?.type === "pcb_board" && board.outline?.[0]).toEqual({
+    x: -12.7,
+    y: -6.35,
+  })
+  const pads = circuitJson.filter(
+    (e): e is PcbSmtPadRect => e.type === "pcb_smtpad",
+  )
+  expect(pads.map((p) => p.x)).toEqual([-1.27, 1.27])
+})
+
+test("library (unit) only applies to images and padstacks", () => {
+  const circuitJson = convertDsnToCircuitJson(
+    createDsn({ resolution: "um 10", libraryUnit: "mil" }),
+  )
+
+  // The board, placement and wiring stay in um
+  const board = circuitJson.find((e) => e.type === "pcb_board")
+  expect(board?.type === "pcb_board" && board.outline?.[0]).toEqual({
+    x: -0.5,
+    y: -0.25,
+  })
+  const trace = circuitJson.find((e): e is PcbTrace => e.type === "pcb_trace")
+  expect(trace?.route[0]).toMatchObject({ x: -0.05, width: 0.01 })
+
+  // Pin positions and pad sizes are in mil
+  const pads = circuitJson.filter(
+    (e): e is PcbSmtPadRect => e.type === "pcb_smtpad",
+  )
+  expect(pads.map((p) => p.x)).toEqual([-1.27, 1.27])
+  expect(pads[0]).toMatchObject({ width: 1.016, height: 1.016 })
+})
+
+// The same route between R1-1 and R1-2 at (450, 250) and (550, 250) mil,
+// 10 mil wide, in SES units of each resolution
+const sesRoutes = [
+  { resolution: "mil 1000", path: "10000 450000 250000 550000 250000" },
+  { resolution: "um 10", path: "2540 114300 63500 139700 63500" },
+  { resolution: "mm 100000", path: "25400 1143000 635000 1397000 635000" },
+]
+
+test("ses routes land on the same mm coordinates for every resolution", () => {
+  const dsnContent = createDsn({ resolution: "mil 10", withWiring: false })
+
+  for (const { resolution, path } of sesRoutes) {
+    const circuitJson = convertDsnAndSesToCircuitJson(
+      dsnContent,
+      `(session units.ses
+  (base_design units.dsn)
+  (routes
+    (resolution ${resolution})
+    (parser)
+    (network_out
+      (net N1 (wire (path F.Cu ${path})))
+    )
+  )
+)`,
+    )
+
+    const traces = circuitJson.filter(
+      (e): e is PcbTrace => e.type === "pcb_trace",
+    )
+    expect(traces).toHaveLength(1)
+    const route = traces[0]!.route.filter(
+      (point) => point.route_type === "wire",
+    )
+    expect(
+      route.map((point) => [
+        Number(point.x.toFixed(6)),
+        Number(point.y.toFixed(6)),
+        Number(point.width.toFixed(6)),
+      ]),
+    ).toEqual([
+      [-1.27, 0, 0.254],
+      [1.27, 0, 0.254],
+    ])
+    expect(circuitJson.filter((e) => e.type === "pcb_trace_error")).toEqual([])
+  }
+})
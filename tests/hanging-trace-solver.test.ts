@@ -0,0 +1,181 @@
+import { expect, test } from "bun:test"
+import type { LayerRef, PcbTrace, PcbVia } from "circuit-json"
+import { HangingTraceSolver } from "../lib/PcbStitchPipelineSolver/HangingTraceSolver"
+import {
+  Circle,
+  Point,
+} from "../lib/PcbStitchPipelineSolver/utils/geometryUtils"
+
+const createTrace = (
+  pcbTraceId: string,
+  points: Array<[number, number]>,
+  layer: LayerRef = "top",
+): PcbTrace => ({
+  type: "pcb_trace",
+  pcb_trace_id: pcbTraceId,
+  route: points.map(([x, y]) => ({
+    route_type: "wire",
+    x,
+    y,
+    width: 0.2,
+    layer,
+  })),
+})
+
+const createVia = (
+  pcbViaId: string,
+  x: number,
+  layers: LayerRef[] = ["top", "bottom"],
+): PcbVia => ({
+  type: "pcb_via",
+  pcb_via_id: pcbViaId,
+  x,
+  y: 0,
+  outer_diameter: 0.6,
+  hole_diameter: 0.3,
+  layers,
+})
+
+test("hanging fragments are chained onto same-net pad-attached copper", () => {
+  const via: PcbVia = {
+    type: "pcb_via",
+    pcb_via_id: "pcb_via_0",
+    x: 10,
+    y: 0,
+    outer_diameter: 0.6,
+    hole_diameter: 0.3,
+    layers: ["top", "bottom"],
+  }
+
+  const solver = new HangingTraceSolver({
+    padAttachedTraces: [
+      createTrace("attached", [
+        [0, 0],
+        [5, 0],
+      ]),
+    ],
+    padAttachedVias: [],
+    hangingTraces: [
+      // Only reachable once "near" has been attached
+      createTrace("far", [
+        [8.25, 0],
+        [10, 0],
+      ]),
+      createTrace("near", [
+        [5.1, 0],
+        [8, 0],
+      ]),
+      createTrace("other-net", [
+        [5.1, 1],
+        [8, 1],
+      ]),
+    ],
+    hangingVias: [via],
+    netNameByPcbElementId: new Map([
+      ["attached", "A"],
+      ["far", "A"],
+      ["near", "A"],
+      ["other-net", "B"],
+      ["pcb_via_0", "A"],
+    ]),
+  })
+  solver.solve()
+
+  const output = solver.getOutput()
+  expect(output.attachedTraces.map((t) => t.pcb_trace_id)).toEqual([
+    "attached",
+    "near",
+    "far",
+  ])
+  expect(output.attachedVias).toEqual([{ ...via, pcb_trace_id: "far" }])
+
+  // "far" had a gap to "near", so a bridging point was added
+  expect(output.attachedTraces[2]!.route[0]).toMatchObject({ x: 8, y: 0 })
+
+  expect(output.hangingTraces.map((t) => t.pcb_trace_id)).toEqual(["other-net"])
+  expect(output.traceErrors).toHaveLength(1)
+  expect(output.traceErrors[0]).toMatchObject({
+    type: "pcb_trace_error",
+    pcb_trace_id: "other-net",
+  })
+})
+
+test("hanging fragments only attach to copper sharing a layer with them", () => {
+  const solver = new HangingTraceSolver({
+    padAttachedTraces: [
+      createTrace("attached", [
+        [0, 0],
+        [5, 0],
+      ]),
+    ],
+    padAttachedVias: [],
+    hangingTraces: [
+      // Ends next to the top trace, but on the bottom layer
+      createTrace(
+        "bottom-near-trace",
+        [
+          [5.1, 0],
+          [8, 0],
+        ],
+        "bottom",
+      ),
+      // Starts on the top pad, but on the bottom layer
+      createTrace(
+        "bottom-on-pad",
+        [
+          [20, 0],
+          [22, 0],
+        ],
+        "bottom",
+      ),
+    ],
+    hangingVias: [
+      // A buried via sitting on the top pad
+      createVia("buried-on-pad", 20, ["inner1", "inner2"]),
+      createVia("through-on-pad", 20.1),
+    ],
+    netNameByPcbElementId: new Map([
+      ["attached", "A"],
+      ["bottom-near-trace", "A"],
+      ["bottom-on-pad", "A"],
+      ["buried-on-pad", "A"],
+      ["through-on-pad", "A"],
+    ]),
+    pads: [
+      {
+        pcbPortId: "pcb_port_0",
+        netNames: ["A"],
+        layers: ["top"],
+        shape: { type: "circle", shape: new Circle(new Point(20, 0), 0.5) },
+      },
+    ],
+  })
+  solver.solve()
+
+  const output = solver.getOutput()
+  expect(output.attachedVias.map((via) => via.pcb_via_id)).toEqual([
+    "through-on-pad",
+  ])
+  // The bottom trace on the pad now reaches top copper through the via
+  expect(output.attachedTraces.map((t) => t.pcb_trace_id)).toEqual([
+    "attached",
+    "bottom-on-pad",
+  ])
+  expect(output.hangingTraces.map((t) => t.pcb_trace_id)).toEqual([
+    "bottom-near-trace",
+  ])
+  expect(output.hangingVias.map((via) => via.pcb_via_id)).toEqual([
+    "buried-on-pad",
+  ])
+
+  // Hanging vias have no trace, their errors keep the net of the via
+  const viaError = output.traceErrors.find(
+    (traceError) => traceError.center?.x === 20,
+  )!
+  expect(viaError.message).toBe(
+    'Via buried-on-pad on net "A" is not connected to any pad',
+  )
+  expect(output.netNameByTraceErrorId.get(viaError.pcb_trace_error_id)).toBe(
+    "A",
+  )
+})
@@ -0,0 +1,90 @@
+import { expect, test } from "bun:test"
+import { cju } from "@tscircuit/circuit-json-util"
+import { parseSpectraDsn, SxClass } from "dsnts"
+import { convertDsnToCircuitJson } from "../lib/dsn-to-circuit-json"
+
+const dsnContent = `(pcb test.dsn
+  (resolution um 10)
+  (unit um)
+  (structure
+    (layer F.Cu (type signal))
+    (layer B.Cu (type signal))
+    (boundary (path pcb 0 -10000 -10000 10000 -10000 10000 10000 -10000 10000 -10000 -10000))
+    (keepout "" (polygon signal 0 -8000 -8000 -6000 -8000 -6000 -6000 -8000 -6000))
+    (via_keepout (circle F.Cu 2000 5000 5000))
+  )
+  (placement
+    (component mounting_hole
+      (place H1 3000 0 front 90)
+      (place H2 -3000 0 back 0)
+    )
+  )
+  (library
+    (image mounting_hole
+      (pin rect_pad 1 0 0)
+      (wire_keepout (rect F.Cu 1000 -500 2000 500))
+      (place_keepout (circle signal 1000 0 0))
+    )
+    (padstack rect_pad
+      (shape (rect F.Cu -400 -200 400 200))
+    )
+  )
+  (network)
+)`
+
+test("DSN keepouts become pcb_keepouts with layers", () => {
+  const db = cju(convertDsnToCircuitJson(dsnContent))
+  const keepouts = db.pcb_keepout.list()
+
+  const boardKeepout = keepouts.find((k) => k.description === "keepout")!
+  expect(boardKeepout).toMatchObject({
+    shape: "rect",
+    center: { x: -7, y: -7 },
+    width: 2,
+    height: 2,
+    layers: ["top", "bottom"],
+  })
+
+  const viaKeepout = keepouts.find((k) => k.description === "via_keepout")!
+  expect(viaKeepout).toMatchObject({
+    shape: "circle",
+    center: { x: 5, y: 5 },
+    radius: 1,
+    layers: ["top"],
+  })
+
+  // Image keepouts are placed with each component, the back side component
+  // is mirrored and keeps out the bottom layer
+  const wireKeepouts = keepouts
+    .filter((k) => k.description === "wire_keepout")
+    .map((k) =>
+      k.shape === "rect"
+        ? {
+            x: Number(k.center.x.toFixed(6)),
+            y: Number(k.center.y.toFixed(6)),
+            width: Number(k.width.toFixed(6)),
+            height: Number(k.height.toFixed(6)),
+            layers: k.layers,
+          }
+        : undefined,
+    )
+  expect(wireKeepouts).toEqual([
+    { x: 3, y: 1.5, width: 1, height: 1, layers: ["top"] },
+    { x: -4.5, y: 0, width: 1, height: 1, layers: ["bottom"] },
+  ])
+
+  expect(
+    keepouts.filter((k) => k.description === "place_keepout"),
+  ).toHaveLength(2)
+})
+
+test("keepout kinds are parsed without registering them with dsnts", () => {
+  const registeredClasses = SxClass.classes
+  convertDsnToCircuitJson(dsnContent)
+
+  expect(SxClass.classes).toBe(registeredClasses)
+  expect(SxClass.classes.via_keepout).toBeUndefined()
+  expect(() => parseSpectraDsn(dsnContent)).toThrow(
+    'Class "via_keepout" not registered',
+  )
+})
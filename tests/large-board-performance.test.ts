@@ -0,0 +1,101 @@
+import { expect, test } from "bun:test"
+import { DsnToCircuitJsonConverter } from "../lib/dsn-to-circuit-json"
+
+/**
+ * A board with rows of two-pin components, pin 2 of each component on a net
+ * with pin 1 of the next
+ */
+const createLargeDsn = (componentCount: number) => {
+  const places: string[] = []
+  const nets: string[] = []
+  for (let i = 0; i < componentCount; i++) {
+    places.push(
+      `(place R${i} ${(i % 100) * 3000} ${Math.floor(i / 100) * 3000} front 0)`,
+    )
+  }
+  for (let i = 0; i + 1 < componentCount; i++) {
+    nets.push(`(net N${i} (pins R${i}-2 R${i + 1}-1))`)
+  }
+
+  return `(pcb large.dsn
+  (resolution um 10)
+  (unit um)
+  (structure
+    (layer F.Cu (type signal))
+    (layer B.Cu (type signal))
+    (boundary (rect pcb -3000 -3000 300000 ${Math.ceil(componentCount / 100) * 3000}))
+  )
+  (placement
+    (component res
+      ${places.join("\n      ")}
+    )
+  )
+  (library
+    (image res
+      (pin rect_pad 1 -1000 0)
+      (pin rect_pad 2 1000 0)
+    )
+    (padstack rect_pad
+      (shape (rect F.Cu -400 -200 400 200))
+    )
+  )
+  (network
+    ${nets.join("\n    ")}
+  )
+)`
+}
+
+/**
+ * Counts the list/get/getWhere calls on each table of the converter's
+ * database. Each call scans or indexes the table, so calls per component make
+ * the conversion quadratic.
+ */
+const countTableReads = (converter: DsnToCircuitJsonConverter) => {
+  const readCounts: Record<string, number> = {}
+  const db = converter.ctx.db
+  converter.ctx.db = new Proxy(db, {
+    get(target, tableName) {
+      const table = Reflect.get(target, tableName)
+      if (typeof tableName !== "string" || typeof table !== "object") {
+        return table
+      }
+      return new Proxy(table, {
+        get(tableTarget, methodName) {
+          const method = Reflect.get(tableTarget, methodName)
+          if (!["list", "get", "getWhere"].includes(String(methodName))) {
+            return method
+          }
+          return (...args: unknown[]) => {
+            readCounts[tableName] = (readCounts[tableName] ?? 0) + 1
+            return method.apply(tableTarget, args)
+          }
+        },
+      })
+    },
+  })
+  return readCounts
+}
+
+const convertLargeDsn = (componentCount: number) => {
+  const converter = new DsnToCircuitJsonConverter(
+    createLargeDsn(componentCount),
+  )
+  const readCounts = countTableReads(converter)
+  converter.runUntilFinished()
+  return { converter, readCounts }
+}
+
+// Components, refs and ports are looked up in the maps of the context
+// (pcbComponentById, componentIdToRef, pinPortsByComponentRef)
+test("database reads don't grow with the number of components", () => {
+  const small = convertLargeDsn(100)
+  const large = convertLargeDsn(1000)
+
+  expect(large.readCounts).toEqual(small.readCounts)
+
+  expect(large.converter.ctx.pcbComponentById!.size).toBe(1000)
+  expect(large.converter.ctx.componentIdToRef!.size).toBe(1000)
+  expect(
+    large.converter.getOutput().filter((el) => el.type === "pcb_port"),
+  ).toHaveLength(2000)
+})
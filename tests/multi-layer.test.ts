@@ -0,0 +1,101 @@
+import { expect, test } from "bun:test"
+import { cju } from "@tscircuit/circuit-json-util"
+import { convertDsnToCircuitJson } from "../lib/dsn-to-circuit-json"
+import { convertDsnAndSesToCircuitJson } from "../lib/convertDsnAndSesToCircuitJson"
+
+const dsnContent = `(pcb test.dsn
+  (resolution um 10)
+  (unit um)
+  (structure
+    (layer F.Cu (type signal))
+    (layer In1.Cu (type signal))
+    (layer In2.Cu (type signal))
+    (layer B.Cu (type signal))
+    (boundary (path pcb 0 -10000 -10000 10000 -10000 10000 10000 -10000 10000 -10000 -10000))
+  )
+  (placement
+    (component tht2
+      (place J1 -5000 0 front 0)
+      (place J2 5000 0 front 0)
+    )
+  )
+  (library
+    (image tht2
+      (pin through_hole_pad 1 0 0)
+    )
+    (padstack through_hole_pad
+      (shape (circle F.Cu 1600))
+      (shape (circle In1.Cu 1600))
+      (shape (circle In2.Cu 1600))
+      (shape (circle B.Cu 1600))
+    )
+    (padstack "Via[1-2]_600:300_um"
+      (shape (circle In1.Cu 600))
+      (shape (circle In2.Cu 600))
+    )
+  )
+  (network
+    (net N1 (pins J1-1 J2-1))
+  )
+  (wiring
+    (wire (path In1.Cu 250 -5000 0 0 0) (net N1))
+    (wire (path In2.Cu 250 0 0 5000 0) (net N1))
+  )
+)`
+
+test("DSN inner layers map to inner1..innerN", () => {
+  const db = cju(convertDsnToCircuitJson(dsnContent))
+
+  expect(db.pcb_board.list()[0]!.num_layers).toBe(4)
+  for (const platedHole of db.pcb_plated_hole.list()) {
+    expect(platedHole.layers).toEqual(["top", "inner1", "inner2", "bottom"])
+  }
+
+  const traceLayers = db.pcb_trace
+    .list()
+    .flatMap((trace) =>
+      trace.route.flatMap((point) =>
+        point.route_type === "wire" ? [point.layer] : [],
+      ),
+    )
+  expect(new Set(traceLayers)).toEqual(new Set(["inner1", "inner2"]))
+})
+
+test("SES inner layer routes keep their layers", () => {
+  const sesContent = `(session test.ses
+    (base_design test.dsn)
+    (routes
+      (resolution um 10)
+      (parser)
+      (library_out
+        (padstack "Via[1-2]_600:300_um"
+          (shape (circle In1.Cu 6000 0 0))
+          (shape (circle In2.Cu 6000 0 0))
+        )
+      )
+      (network_out
+        (net N1
+          (wire (path In1.Cu 2500 -50000 0 0 0))
+          (via "Via[1-2]_600:300_um" 0 0)
+          (wire (path In2.Cu 2500 0 0 50000 0))
+        )
+      )
+    )
+  )`
+
+  const db = cju(
+    convertDsnAndSesToCircuitJson(
+      dsnContent.replace(/\(wiring[\s\S]*?\n  \)\n/, ""),
+      sesContent,
+    ),
+  )
+
+  const [trace] = db.pcb_trace.list()
+  expect(trace!.route.map((point) => point.route_type)).toContain("via")
+  const viaPoint = trace!.route.find((point) => point.route_type === "via")!
+  expect(viaPoint).toMatchObject({ from_layer: "inner1", to_layer: "inner2" })
+
+  const [via] = db.pcb_via.list()
+  expect(via!.layers).toEqual(["inner1", "inner2"])
+  expect(db.pcb_trace_error.list()).toHaveLength(0)
+})
@@ -0,0 +1,136 @@
+import { expect, test } from "bun:test"
+import { cju } from "@tscircuit/circuit-json-util"
+import { DsnToCircuitJsonConverter } from "../lib/dsn-to-circuit-json"
+
+const dsnContent = `(pcb test.dsn
+  (resolution um 10)
+  (unit um)
+  (structure
+    (layer F.Cu (type signal))
+    (layer B.Cu (type signal))
+    (boundary (path pcb 0 -10000 -10000 10000 -10000 10000 10000 -10000 10000 -10000 -10000))
+    (via "Via[0-1]_600:300_um")
+    (rule
+      (width 200)
+      (clearance 150)
+      (clearance 50 (type smd_smd))
+    )
+  )
+  (placement
+    (component pad2
+      (place U1 0 0 front 0)
+      (place U2 5000 0 front 0)
+    )
+  )
+  (library
+    (image pad2
+      (pin rect_pad 1 -1000 0)
+      (pin rect_pad 2 1000 0)
+    )
+    (padstack rect_pad
+      (shape (rect F.Cu -400 -200 400 200))
+    )
+    (padstack "Via[0-1]_600:300_um"
+      (shape (circle F.Cu 600))
+      (shape (circle B.Cu 600))
+    )
+    (padstack "Via[0-1]_1000:500_um"
+      (shape (circle F.Cu 1000))
+      (shape (circle B.Cu 1000))
+    )
+  )
+  (network
+    (net SIG (pins U1-1 U2-1) (rule (clearance 250)))
+    (net VCC (pins U1-2 U2-2))
+    (class kicad_default "" SIG
+      (circuit (use_via "Via[0-1]_600:300_um"))
+      (rule (width 150) (clearance 150))
+    )
+    (class power VCC
+      (circuit (use_via "Via[0-1]_1000:500_um"))
+      (rule (width 500))
+    )
+  )
+)`
+
+const convert = (dsn: string) => {
+  const converter = new DsnToCircuitJsonConverter(dsn)
+  converter.runUntilFinished()
+  return converter
+}
+
+// SIG has its own clearance, overriding its class
+test("net classes and rules are returned by net, widths set on source_nets and source_traces", () => {
+  const converter = convert(dsnContent)
+  const netDesignRules = converter.getNetDesignRules()
+
+  expect(netDesignRules.get("SIG")).toEqual({
+    netClass: "kicad_default",
+    traceWidth: 0.15,
+    clearance: 0.25,
+    viaPadstackId: "Via[0-1]_600:300_um",
+    viaDiameter: 0.6,
+    viaHoleDiameter: 0.3,
+  })
+  // The class has no clearance, the structure rule applies
+  expect(netDesignRules.get("VCC")).toEqual({
+    netClass: "power",
+    traceWidth: 0.5,
+    clearance: 0.15,
+    viaPadstackId: "Via[0-1]_1000:500_um",
+    viaDiameter: 1,
+    viaHoleDiameter: 0.5,
+  })
+
+  // Only schema properties end up in the circuit JSON
+  const db = cju(converter.getOutput())
+  expect(
+    db.source_net.list().map(({ source_net_id, ...sourceNet }) => sourceNet),
+  ).toEqual([
+    {
+      type: "source_net",
+      name: "SIG",
+      member_source_group_ids: [],
+      trace_width: 0.15,
+    },
+    {
+      type: "source_net",
+      name: "VCC",
+      member_source_group_ids: [],
+      trace_width: 0.5,
+    },
+  ])
+  expect(
+    db.source_trace.list().map((trace) => trace.min_trace_thickness),
+  ).toEqual([0.15, 0.5])
+})
+
+test("nets without a class use the structure rules", () => {
+  const converter = convert(`(pcb test.dsn
+  (resolution um 10)
+  (unit um)
+  (structure
+    (layer F.Cu (type signal))
+    (layer B.Cu (type signal))
+    (via "Via[0-1]_600:300_um")
+    (rule (width 200) (clearance 150))
+  )
+  (library
+    (padstack "Via[0-1]_600:300_um"
+      (shape (circle F.Cu 600))
+      (shape (circle B.Cu 600))
+    )
+  )
+  (network
+    (net VCC (pins U1-2 U2-2))
+  )
+)`)
+
+  const vcc = converter.getNetDesignRules().get("VCC")!
+  expect(vcc).toMatchObject({
+    traceWidth: 0.2,
+    clearance: 0.15,
+    viaPadstackId: "Via[0-1]_600:300_um",
+  })
+  expect(vcc).not.toHaveProperty("netClass")
+})
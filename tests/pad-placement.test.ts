@@ -0,0 +1,78 @@
+import { expect, test } from "bun:test"
+import { cju } from "@tscircuit/circuit-json-util"
+import { convertDsnToCircuitJson } from "../lib/dsn-to-circuit-json"
+import { convertDsnAndSesToCircuitJson } from "../lib/convertDsnAndSesToCircuitJson"
+
+const dsnContent = `(pcb test.dsn
+  (resolution um 10)
+  (unit um)
+  (structure
+    (layer F.Cu (type signal))
+    (layer B.Cu (type signal))
+    (boundary (path pcb 0 -10000 -10000 10000 -10000 10000 10000 -10000 10000 -10000 -10000))
+  )
+  (placement
+    (component pad2
+      (place U1 0 0 back 0)
+    )
+  )
+  (library
+    (image pad2
+      (pin rect_pad 1 -2000 0)
+      (pin rect_pad (rotate 90) 2 1000 2000)
+    )
+    (padstack rect_pad
+      (shape (rect F.Cu -400 -200 400 200))
+    )
+  )
+  (network
+    (net N1 (pins U1-1 U1-2))
+  )
+)`
+
+test("back side components are mirrored and pins rotated", () => {
+  const db = cju(convertDsnToCircuitJson(dsnContent))
+
+  const pads = db.pcb_smtpad.list().map((pad) => ({
+    ...(pad.shape === "rect"
+      ? {
+          x: Number(pad.x.toFixed(6)),
+          y: Number(pad.y.toFixed(6)),
+          width: Number(pad.width.toFixed(6)),
+          height: Number(pad.height.toFixed(6)),
+        }
+      : {}),
+    layer: pad.layer,
+  }))
+  expect(pads).toEqual([
+    { x: 2, y: 0, width: 0.8, height: 0.4, layer: "bottom" },
+    { x: -1, y: 2, width: 0.4, height: 0.8, layer: "bottom" },
+  ])
+})
+
+// The route only touches the pads where the mirrored image puts them
+test("SES routes land on mirrored pads", () => {
+  const sesContent = `(session test.ses
+  (base_design test.dsn)
+  (routes
+    (resolution um 10)
+    (parser)
+    (network_out
+      (net N1
+        (wire (path B.Cu 2000 20000 0 20000 -30000 -10000 -30000 -10000 20000))
+      )
+    )
+  )
+)`
+
+  const db = cju(convertDsnAndSesToCircuitJson(dsnContent, sesContent))
+
+  const [trace] = db.pcb_trace.list()
+  const portIds = trace!.route.flatMap((point) =>
+    point.route_type === "wire"
+      ? [point.start_pcb_port_id, point.end_pcb_port_id]
+      : [],
+  )
+  expect(portIds.filter(Boolean)).toHaveLength(2)
+  expect(db.pcb_trace_error.list()).toHaveLength(0)
+})
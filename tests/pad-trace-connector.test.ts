@@ -0,0 +1,299 @@
+import { expect, test } from "bun:test"
+import { parseSpectraDsn, parseSpectraSes } from "dsnts"
+import { PcbStitchPipelineSolver } from "../lib/PcbStitchPipelineSolver/PcbStitchPipelineSolver"
+
+// Pads in um: R1-1 at x=-2500, R1-2 at -1500, R2-1 at 1500, R2-2 at 2500.
+// Net A joins the two inner pads, net B the two outer pads.
+const createDsn = (
+  padShape: string,
+  layerNames = ["F.Cu", "B.Cu"],
+) => `(pcb test.dsn
+  (resolution um 10)
+  (unit um)
+  (structure
+    ${layerNames.map((layerName) => `(layer ${layerName} (type signal))`).join("\n    ")}
+    (boundary (path pcb 0 -5000 -5000 5000 -5000 5000 5000 -5000 5000 -5000 -5000))
+  )
+  (placement
+    (component pad2
+      (place R1 -2000 0 front 0)
+      (place R2 2000 0 front 0)
+    )
+  )
+  (library
+    (image pad2
+      (pin pad 1 -500 0)
+      (pin pad 2 500 0)
+    )
+    (padstack pad
+      (shape ${padShape})
+    )
+  )
+  (network
+    (net A (pins R1-2 R2-1))
+    (net B (pins R1-1 R2-2))
+  )
+)`
+
+const SMD_PAD = "(rect F.Cu -200 -200 200 200)"
+
+// SES coordinates are in 0.1um steps
+const createSes = (nets: string) => `(session test.ses
+  (base_design test.dsn)
+  (routes
+    (resolution um 10)
+    (parser)
+    (network_out
+      ${nets}
+    )
+  )
+)`
+
+const solve = (dsn: string, ses: string) => {
+  const solver = new PcbStitchPipelineSolver({
+    dsn: parseSpectraDsn(dsn),
+    ses: parseSpectraSes(ses),
+  })
+  solver.solve()
+  return solver.padTraceConnector!
+}
+
+const getConnectedPinRefs = (
+  padTraceConnector: ReturnType<typeof solve>,
+): string[] =>
+  padTraceConnector.padToPadConnections
+    .map(
+      ({ startPad, endPad }) =>
+        `${startPad.place.componentRef}-${startPad.pin.pinId}:${endPad.place.componentRef}-${endPad.pin.pinId}`,
+    )
+    .sort()
+
+test("wires on a layer the pad isn't on don't connect to it", () => {
+  // Net B wire on B.Cu passing under the top side net A pads
+  const padTraceConnector = solve(
+    createDsn(SMD_PAD),
+    createSes("(net B (wire (path B.Cu 2000 -15000 0 15000 0)))"),
+  )
+
+  expect(padTraceConnector.padToPadConnections).toHaveLength(0)
+  expect(padTraceConnector.unusedWires).toHaveLength(1)
+  expect(padTraceConnector.getOutput().padAttachedTraces).toHaveLength(0)
+  expect(padTraceConnector.getOutput().hangingTraces).toHaveLength(1)
+})
+
+test("wires of another net don't connect to a pad", () => {
+  const padTraceConnector = solve(
+    createDsn(SMD_PAD),
+    createSes(`
+      (net B (wire (path F.Cu 2000 -15000 1000 15000 1000)))
+      (net A (wire (path F.Cu 2000 -15000 -1000 15000 -1000)))
+    `),
+  )
+
+  expect(getConnectedPinRefs(padTraceConnector)).toEqual(["R1-2:R2-1"])
+  expect(padTraceConnector.unusedWires.map((wire) => wire.net.netName)).toEqual(
+    ["B"],
+  )
+})
+
+test("through-hole pads connect wires on every layer", () => {
+  const padTraceConnector = solve(
+    createDsn("(circle signal 400)"),
+    createSes("(net A (wire (path B.Cu 2000 -15000 0 15000 0)))"),
+  )
+
+  expect(getConnectedPinRefs(padTraceConnector)).toEqual(["R1-2:R2-1"])
+})
+
+test("wire copper touching the pad connects even when the centerline doesn't", () => {
+  // The pad edges are at x=-1300um and x=1300um, the wire ends 150um short
+  const createWireSes = (width: number) =>
+    createSes(`(net A (wire (path F.Cu ${width} -11500 0 11500 0)))`)
+
+  expect(
+    getConnectedPinRefs(solve(createDsn(SMD_PAD), createWireSes(4000))),
+  ).toEqual(["R1-2:R2-1"])
+  expect(
+    getConnectedPinRefs(solve(createDsn(SMD_PAD), createWireSes(2000))),
+  ).toEqual([])
+})
+
+test("vias inside a pad connect only when on the pad's net and layers", () => {
+  // Vias at the center of R1-2 with a bottom wire leading away from them
+  const createViaSes = (netName: string, padstackId: string) =>
+    createSes(`(net ${netName}
+      (via "${padstackId}" -15000 0)
+      (wire (path B.Cu 2000 -15000 0 0 0))
+    )`)
+  const layerNames = ["F.Cu", "In1.Cu", "B.Cu"]
+
+  const throughVia = solve(
+    createDsn(SMD_PAD, layerNames),
+    createViaSes("A", "Via[0-2]_600:300_um"),
+  )
+  expect(throughVia.usedVias).toHaveLength(1)
+  expect(throughVia.usedWires).toHaveLength(1)
+
+  const otherNetVia = solve(
+    createDsn(SMD_PAD, layerNames),
+    createViaSes("B", "Via[0-2]_600:300_um"),
+  )
+  expect(otherNetVia.unusedVias).toHaveLength(1)
+  expect(otherNetVia.unusedWires).toHaveLength(1)
+
+  // A buried via between In1.Cu and B.Cu doesn't reach the top pad
+  const buriedVia = solve(
+    createDsn(SMD_PAD, layerNames),
+    createViaSes("A", "Via[1-2]_600:300_um"),
+  )
+  expect(buriedVia.unusedVias).toHaveLength(1)
+  expect(buriedVia.unusedWires).toHaveLength(1)
+})
+
+test("the search walks through touching wires of the same layer to the next pad", () => {
+  const padTraceConnector = solve(
+    createDsn(SMD_PAD),
+    createSes(`(net A
+      (wire (path F.Cu 2000 -15000 0 -5000 0))
+      (wire (path F.Cu 2000 -5000 -3000 -5000 3000))
+      (wire (path F.Cu 2000 -5000 3000 15000 3000 15000 0))
+      (wire (path B.Cu 2000 -5000 3000 -5000 8000))
+    )`),
+  )
+
+  expect(getConnectedPinRefs(padTraceConnector)).toEqual(["R1-2:R2-1"])
+
+  // The endpoint of the first wire lies on the second wire, the second and
+  // third wires meet end to end
+  const [connection] = padTraceConnector.padToPadConnections
+  const wireChain: string[] = []
+  for (let wire = connection?.endWire; wire; wire = wire.parentWire) {
+    wireChain.push(wire.specificSesWireId)
+  }
+  expect(wireChain).toEqual(["wire2", "wire1", "wire0"])
+  expect(connection?.endWire.connectedPad).toBeUndefined()
+
+  // The bottom wire touches the third wire's end but is on another layer
+  expect(
+    padTraceConnector.unusedWires.map((wire) => wire.specificSesWireId),
+  ).toEqual(["wire3"])
+})
+
+test("getOutput emits pad-attached and hanging traces and vias", () => {
+  const padTraceConnector = solve(
+    createDsn(SMD_PAD),
+    createSes(`(net A
+      (wire (path F.Cu 2000 -15000 0 15000 0))
+      (wire (path F.Cu 2000 -5000 20000 5000 20000))
+      (via "Via[0-1]_600:300_um" 0 30000)
+    )`),
+  )
+  const {
+    padAttachedTraces,
+    padAttachedVias,
+    hangingTraces,
+    hangingVias,
+    netNameByPcbElementId,
+  } = padTraceConnector.getOutput()
+
+  expect(padAttachedTraces).toHaveLength(1)
+  const route = padAttachedTraces[0]!.route
+  expect(route[0]).toMatchObject({
+    route_type: "wire",
+    x: -1.5,
+    y: 0,
+    layer: "top",
+    width: 0.2,
+    start_pcb_port_id: "R1-2",
+  })
+  expect(route[route.length - 1]).toMatchObject({
+    route_type: "wire",
+    x: 1.5,
+    y: 0,
+    end_pcb_port_id: "R2-1",
+  })
+  expect(padAttachedTraces[0]!.trace_length).toBe(3)
+  expect(padAttachedVias).toHaveLength(0)
+
+  expect(hangingTraces).toHaveLength(1)
+  expect(hangingTraces[0]!.route.map(({ x, y }) => [x, y])).toEqual([
+    [-0.5, 2],
+    [0.5, 2],
+  ])
+  expect(hangingVias).toEqual([
+    {
+      type: "pcb_via",
+      pcb_via_id: "pcb_via_0",
+      x: 0,
+      y: 3,
+      outer_diameter: 0.6,
+      hole_diameter: 0.3,
+      layers: ["top", "bottom"],
+    },
+  ])
+
+  for (const element of [...padAttachedTraces, ...hangingTraces]) {
+    expect(netNameByPcbElementId.get(element.pcb_trace_id)).toBe("A")
+  }
+  expect(netNameByPcbElementId.get("pcb_via_0")).toBe("A")
+})
+
+test("vias switch the route layer between wires", () => {
+  // Top pads joined by a detour over the bottom layer
+  const padTraceConnector = solve(
+    createDsn(SMD_PAD),
+    createSes(`(net A
+      (wire (path F.Cu 2000 -15000 0 -5000 0))
+      (via "Via[0-1]_600:300_um" -5000 0)
+      (wire (path B.Cu 2000 -5000 0 5000 0))
+      (via "Via[0-1]_600:300_um" 5000 0)
+      (wire (path F.Cu 2000 5000 0 15000 0))
+    )`),
+  )
+  const { padAttachedTraces, padAttachedVias } = padTraceConnector.getOutput()
+
+  expect(getConnectedPinRefs(padTraceConnector)).toEqual(["R1-2:R2-1"])
+  expect(padAttachedTraces).toHaveLength(1)
+  const trace = padAttachedTraces[0]!
+
+  expect(
+    trace.route.map((point) =>
+      point.route_type === "via"
+        ? `via ${point.x} ${point.from_layer}->${point.to_layer}`
+        : `wire ${point.x} ${point.layer}`,
+    ),
+  ).toEqual([
+    "wire -1.5 top",
+    "wire -0.5 top",
+    "via -0.5 top->bottom",
+    "wire -0.5 bottom",
+    "wire 0.5 bottom",
+    "via 0.5 bottom->top",
+    "wire 0.5 top",
+    "wire 1.5 top",
+  ])
+
+  expect(
+    padAttachedVias
+      .map((via) => ({
+        x: via.x,
+        pcb_trace_id: via.pcb_trace_id,
+        from_layer: via.from_layer,
+        to_layer: via.to_layer,
+      }))
+      .sort((a, b) => a.x - b.x),
+  ).toEqual([
+    {
+      x: -0.5,
+      pcb_trace_id: trace.pcb_trace_id,
+      from_layer: "top",
+      to_layer: "bottom",
+    },
+    {
+      x: 0.5,
+      pcb_trace_id: trace.pcb_trace_id,
+      from_layer: "bottom",
+      to_layer: "top",
+    },
+  ])
+})
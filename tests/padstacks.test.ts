@@ -0,0 +1,204 @@
+import { expect, test } from "bun:test"
+import { cju } from "@tscircuit/circuit-json-util"
+import {
+  convertDsnToCircuitJson,
+  DsnToCircuitJsonConverter,
+} from "../lib/dsn-to-circuit-json"
+
+const dsnContent = `(pcb test.dsn
+  (resolution um 10)
+  (unit um)
+  (structure
+    (layer F.Cu (type signal))
+    (layer B.Cu (type signal))
+    (boundary (path pcb 0 -10000 -10000 10000 -10000 10000 10000 -10000 10000 -10000 -10000))
+  )
+  (placement
+    (component mixed
+      (place U1 0 0 front 0)
+    )
+  )
+  (library
+    (image mixed
+      (pin "Round[A]Pad_1000_1700_um" 1 -3000 0)
+      (pin "Oval[A]Pad_1700x2500_um" 2 0 0)
+      (pin "Rect[A]Pad_1700x1700_um" 3 3000 0)
+      (pin "Oval[T]Pad_600x1200_um" 4 0 3000)
+    )
+    (padstack "Round[A]Pad_1000_1700_um"
+      (shape (circle F.Cu 1700))
+      (shape (circle B.Cu 1700))
+      (attach off)
+    )
+    (padstack "Oval[A]Pad_1700x2500_um"
+      (shape (path F.Cu 1700 0 -400 0 400))
+      (shape (path B.Cu 1700 0 -400 0 400))
+      (attach off)
+    )
+    (padstack "Rect[A]Pad_1700x1700_um"
+      (shape (rect F.Cu -850 -850 850 850))
+      (shape (rect B.Cu -850 -850 850 850))
+      (attach off)
+    )
+    (padstack "Oval[T]Pad_600x1200_um"
+      (shape (path F.Cu 600 -300 0 300 0))
+      (attach off)
+    )
+  )
+  (network)
+)`
+
+test("padstacks become plated holes and pill pads with real sizes", () => {
+  const db = cju(convertDsnToCircuitJson(dsnContent))
+
+  const platedHoles = db.pcb_plated_hole.list()
+  expect(platedHoles.map((hole) => hole.shape)).toEqual([
+    "circle",
+    "pill",
+    "circular_hole_with_rect_pad",
+  ])
+  expect(platedHoles[0]).toMatchObject({
+    x: -3,
+    outer_diameter: 1.7,
+    hole_diameter: 1,
+  })
+  expect(platedHoles[1]).toMatchObject({
+    outer_width: 1.7,
+    outer_height: 2.5,
+    layers: ["top", "bottom"],
+  })
+  expect(platedHoles[2]).toMatchObject({
+    rect_pad_width: 1.7,
+    rect_pad_height: 1.7,
+  })
+
+  const [pillPad] = db.pcb_smtpad.list()
+  expect(pillPad).toMatchObject({
+    shape: "pill",
+    x: 0,
+    y: 3,
+    width: 1.2,
+    height: 0.6,
+    radius: 0.3,
+    layer: "top",
+  })
+})
+
+test("KiCad pad names without a drill size get a round estimated hole", () => {
+  const converter = new DsnToCircuitJsonConverter(`(pcb test.dsn
+  (resolution um 10)
+  (unit um)
+  (structure
+    (layer F.Cu (type signal))
+    (layer B.Cu (type signal))
+    (boundary (path pcb 0 -10000 -10000 10000 -10000 10000 10000 -10000 10000 -10000 -10000))
+  )
+  (placement
+    (component header
+      (place J1 0 0 front 0)
+    )
+  )
+  (library
+    (image header
+      (pin "Round[A]Pad_1700_um" 1 -2000 0)
+      (pin "Oval[A]Pad_1700x2500_um" 2 0 0)
+      (pin "Oval[A]Pad_1700x2500_um" 3 2000 0)
+    )
+    (padstack "Round[A]Pad_1700_um"
+      (shape (circle F.Cu 1700))
+      (shape (circle B.Cu 1700))
+      (attach off)
+    )
+    (padstack "Oval[A]Pad_1700x2500_um"
+      (shape (path F.Cu 1700 0 -400 0 400))
+      (shape (path B.Cu 1700 0 -400 0 400))
+      (attach off)
+    )
+  )
+  (network)
+)`)
+  converter.runUntilFinished()
+  const db = cju(converter.getOutput())
+
+  expect(
+    db.pcb_plated_hole
+      .list()
+      .map((hole) =>
+        hole.shape === "pill"
+          ? [
+              hole.shape,
+              hole.outer_width,
+              hole.outer_height,
+              hole.hole_width,
+              hole.hole_height,
+            ]
+          : [hole.shape, (hole as { hole_diameter: number }).hole_diameter],
+      ),
+  ).toEqual([
+    ["circle", 0.85],
+    ["pill", 1.7, 2.5, 0.85, 0.85],
+    ["pill", 1.7, 2.5, 0.85, 0.85],
+  ])
+
+  // One warning per padstack
+  expect(
+    converter
+      .getDiagnostics()
+      .map(({ code, severity, sourcePath }) => [code, severity, sourcePath]),
+  ).toEqual([
+    [
+      "estimated_hole_diameter",
+      "warning",
+      "library/padstack Round[A]Pad_1700_um",
+    ],
+    [
+      "estimated_hole_diameter",
+      "warning",
+      "library/padstack Oval[A]Pad_1700x2500_um",
+    ],
+  ])
+})
+
+test("polygon padstacks become polygon pads", () => {
+  const db = cju(
+    convertDsnToCircuitJson(`(pcb test.dsn
+  (resolution um 10)
+  (unit um)
+  (structure
+    (layer F.Cu (type signal))
+    (layer B.Cu (type signal))
+    (boundary (path pcb 0 -10000 -10000 10000 -10000 10000 10000 -10000 10000 -10000 -10000))
+  )
+  (placement
+    (component triangle
+      (place U1 2000 0 back 90)
+    )
+  )
+  (library
+    (image triangle
+      (pin triangle_pad (rotate 90) 1 0 0)
+    )
+    (padstack triangle_pad
+      (shape (polygon F.Cu 0 0 0 1000 0 0 500 0 0))
+    )
+  )
+  (network)
+)`),
+  )
+
+  // Pin rotation, back side mirroring and component rotation, in that order
+  const [pad] = db.pcb_smtpad.list()
+  expect(pad!.shape).toBe("polygon")
+  if (pad!.shape === "polygon") {
+    expect(
+      pad!.points.map((point) => ({
+        x: Number(point.x.toFixed(6)),
+        y: Number(point.y.toFixed(6)),
+      })),
+    ).toEqual([
+      { x: 2, y: 0 },
+      { x: 1, y: 0 },
+      { x: 2, y: 0.5 },
+    ])
+  }
+})
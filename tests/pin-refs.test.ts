@@ -0,0 +1,67 @@
+import { expect, test } from "bun:test"
+import { cju } from "@tscircuit/circuit-json-util"
+import { convertDsnToCircuitJson } from "../lib/dsn-to-circuit-json"
+
+const dsnContent = `(pcb test.dsn
+  (resolution um 10)
+  (unit um)
+  (structure
+    (layer F.Cu (type signal))
+    (layer B.Cu (type signal))
+    (boundary (path pcb 0 -10000 -10000 10000 -10000 10000 10000 -10000 10000 -10000 -10000))
+  )
+  (placement
+    (component image_a
+      (place U1 0 0 front 0)
+    )
+    (component image_b
+      (place U1-A 0 3000 front 0)
+      (place "Q 1" 0 -3000 front 0)
+    )
+  )
+  (library
+    (image image_a
+      (pin rect_pad A-1 -1000 0)
+      (pin rect_pad 2 1000 0)
+    )
+    (image image_b
+      (pin rect_pad "B-3" -1000 0)
+      (pin rect_pad 1 1000 0)
+    )
+    (padstack rect_pad
+      (shape (rect F.Cu -400 -200 400 200))
+    )
+  )
+  (network
+    (net N1 (pins "U1-A"-"B-3" "Q 1"-"B-3"))
+    (net N2 (pins U1-A-1 U1-2 "Q 1"-1 U1-A-1-2))
+  )
+)`
+
+// Pin refs are split at the longest component ref that has the pin
+test("pin refs of components and pins with dashes and spaces resolve", () => {
+  const db = cju(convertDsnToCircuitJson(dsnContent))
+
+  const getPortNames = (sourceTraceIndex: number) =>
+    db.source_trace
+      .list()
+      [sourceTraceIndex]!.connected_source_port_ids.map(
+        (sourcePortId) => db.source_port.get(sourcePortId)!.name,
+      )
+
+  expect(getPortNames(0)).toEqual(["U1-A-B-3", "Q 1-B-3"])
+  expect(getPortNames(1)).toEqual(["U1-A-1", "U1-2", "Q 1-1"])
+
+  const portComponentNames = db.source_trace
+    .list()[1]!
+    .connected_source_port_ids.map((sourcePortId) => {
+      const sourcePort = db.source_port.get(sourcePortId)!
+      return db.source_component.get(sourcePort.source_component_id!)!.name
+    })
+  expect(portComponentNames).toEqual(["U1-A", "U1", "Q 1"])
+
+  // U1-A has no pin "1-2" and U1 no pin "A-1-2"
+  expect(
+    db.source_trace_not_connected_error.list()[0]!.selectors_not_found,
+  ).toEqual(["U1-A-1-2"])
+})
@@ -0,0 +1,84 @@
+import { expect, test } from "bun:test"
+import { cju } from "@tscircuit/circuit-json-util"
+import {
+  DsnToCircuitJsonConverter,
+  convertDsnToCircuitJson,
+} from "../lib/dsn-to-circuit-json"
+
+const dsnContent = `(pcb test.dsn
+  (resolution um 10)
+  (unit um)
+  (structure
+    (layer F.Cu (type signal))
+    (layer GND (type power))
+    (layer VCC (type power))
+    (layer B.Cu (type signal))
+    (boundary (path pcb 0 -10000 -10000 10000 -10000 10000 10000 -10000 10000 -10000 -10000))
+    (plane GND (polygon GND 0 -5000 -5000 5000 -5000 5000 5000 -5000 5000))
+  )
+  (placement
+    (component pad1
+      (place J1 0 0 front 0)
+    )
+  )
+  (library
+    (image pad1
+      (pin rect_pad 1 0 0)
+    )
+    (padstack rect_pad
+      (shape (rect F.Cu -400 -400 400 400))
+    )
+  )
+  (network
+    (net GND (pins J1-1))
+    (net VCC)
+  )
+)`
+
+test("DSN planes and power layers become copper pours on inner layers", () => {
+  const db = cju(convertDsnToCircuitJson(dsnContent))
+
+  const netIdByName = new Map(
+    db.source_net.list().map((net) => [net.name, net.source_net_id]),
+  )
+  const pours = db.pcb_copper_pour.list()
+  expect(pours).toHaveLength(2)
+
+  const gndPour = pours.find((pour) => pour.layer === "inner1")!
+  expect(gndPour.source_net_id).toBe(netIdByName.get("GND")!)
+  expect(gndPour.shape).toBe("polygon")
+  if (gndPour.shape === "polygon") {
+    expect(gndPour.points).toEqual([
+      { x: -5, y: -5 },
+      { x: 5, y: -5 },
+      { x: 5, y: 5 },
+      { x: -5, y: 5 },
+    ])
+  }
+
+  // VCC has no plane, its pour covers the board
+  const vccPour = pours.find((pour) => pour.layer === "inner2")!
+  expect(vccPour.source_net_id).toBe(netIdByName.get("VCC")!)
+  expect(vccPour.shape).toBe("polygon")
+})
+
+test("power layers without a net of the same name get no copper pour", () => {
+  const converter = new DsnToCircuitJsonConverter(
+    dsnContent.replace(
+      "(layer VCC (type power))",
+      "(layer VCC (type power))\n    (layer PWR (type power))",
+    ),
+  )
+  converter.runUntilFinished()
+  const db = cju(converter.getOutput())
+
+  expect(db.pcb_copper_pour.list().map((pour) => pour.layer)).toEqual([
+    "inner1",
+    "inner2",
+  ])
+  expect(
+    converter
+      .getDiagnostics()
+      .map(({ code, severity, sourcePath }) => [code, severity, sourcePath]),
+  ).toEqual([["power_layer_without_net", "warning", "structure/layer PWR"]])
+})
@@ -1,21 +1,31 @@
 import { resolve } from "node:path"
 import { readFile } from "node:fs/promises"
 import { expect, test } from "bun:test"
-import { convertSesToCircuitJson } from "../lib/ses-to-circuit-json/SesToCircuitJsonConverter"
+import {
+  SesToCircuitJsonConverter,
+  convertSesToCircuitJson,
+} from "../lib/ses-to-circuit-json/SesToCircuitJsonConverter"
 import { convertCircuitJsonToPcbSvg } from "circuit-to-svg"
 
-test("can convert Example.ses to circuit json", async () => {
-  const sesPath = resolve("tests/assets/Example.ses")
+test("can convert an SES with the DSN it was routed from", async () => {
+  const sesPath = resolve(
+    "pages/repros/repro02/assets/LGA15x4_net15_bottom_only.ses",
+  )
+  const dsnPath = resolve(
+    "pages/repros/repro02/assets/LGA15x4_net15_bottom_only_input.dsn",
+  )
   const content = await readFile(sesPath, "utf-8")
+  const dsnContent = await readFile(dsnPath, "utf-8")
 
-  const circuitJson = convertSesToCircuitJson(content)
+  const circuitJson = convertSesToCircuitJson(content, dsnContent)
 
   expect(circuitJson).toBeDefined()
   expect(circuitJson.length).toBeGreaterThan(0)
 
-  // Verify we have pcb_trace elements
+  // Every route reaches a pad of its net
   const traces = circuitJson.filter((el: any) => el.type === "pcb_trace")
   expect(traces.length).toBeGreaterThan(0)
+  expect(circuitJson.filter((el) => el.type === "pcb_trace_error")).toEqual([])
 
   // Write debug output
   Bun.write(
@@ -26,3 +36,25 @@ test("can convert Example.ses to circuit json", async () => {
   const svg = convertCircuitJsonToPcbSvg(circuitJson)
   expect(svg).toMatchSvgSnapshot(import.meta.path)
 })
+
+test("Example.ses routes without pads to connect to are kept and reported", async () => {
+  const content = await readFile(resolve("tests/assets/Example.ses"), "utf-8")
+
+  // The DSN this session was routed from (Issue313-FastTest.dsn) isn't
+  // available, so none of its 184 wires and 12 vias reach a pad
+  const converter = new SesToCircuitJsonConverter(
+    content,
+    `(pcb "Issue313-FastTest.dsn" (resolution mil 1000))`,
+  )
+  converter.runUntilFinished()
+  const circuitJson = converter.getOutput()
+
+  expect(circuitJson.filter((el) => el.type === "pcb_trace")).toHaveLength(184)
+  expect(circuitJson.filter((el) => el.type === "pcb_via")).toHaveLength(12)
+  expect(
+    circuitJson.filter((el) => el.type === "pcb_trace_error"),
+  ).toHaveLength(196)
+  expect(
+    converter.getDiagnostics().filter(({ code }) => code === "dangling_route"),
+  ).toHaveLength(196)
+})
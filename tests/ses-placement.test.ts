@@ -0,0 +1,198 @@
+import { expect, test } from "bun:test"
+import type {
+  PCBKeepout,
+  PcbComponent,
+  PcbPort,
+  PcbSmtPadRect,
+  PcbTrace,
+} from "circuit-json"
+import { convertDsnAndSesToCircuitJson } from "../lib/convertDsnAndSesToCircuitJson"
+
+const dsnContent = `(pcb test.dsn
+  (resolution um 10)
+  (unit um)
+  (structure
+    (layer F.Cu (type signal))
+    (layer B.Cu (type signal))
+    (boundary (path pcb 0 -10000 -10000 10000 -10000 10000 10000 -10000 10000 -10000 -10000))
+  )
+  (placement
+    (component pad2
+      (place U1 -5000 0 front 0)
+      (place R1 0 0 front 0)
+    )
+  )
+  (library
+    (image pad2
+      (pin rect_pad 1 -1000 0)
+      (pin rect_pad 2 1000 0)
+    )
+    (padstack rect_pad
+      (shape (rect F.Cu -400 -200 400 200))
+    )
+  )
+  (network
+    (net N1 (pins U1-2 R1-1))
+  )
+)`
+
+// The autorouter moved R1 to (5mm, 2mm) and rotated it by 90°, so R1-1 is
+// now at (5mm, 1mm)
+const sesContent = `(session test.ses
+  (base_design test.dsn)
+  (placement
+    (resolution um 10)
+    (component pad2
+      (place U1 -50000 0 front 0)
+      (place R1 50000 20000 front 90)
+    )
+  )
+  (routes
+    (resolution um 10)
+    (parser)
+    (network_out
+      (net N1
+        (wire (path F.Cu 2000 -40000 0 50000 0 50000 10000))
+      )
+    )
+  )
+)`
+
+test("SES placement moves components, their pads and ports", () => {
+  const circuitJson = convertDsnAndSesToCircuitJson(dsnContent, sesContent)
+
+  const [sourceComponentId] = circuitJson.flatMap((el) =>
+    el.type === "source_component" && el.name === "R1"
+      ? [el.source_component_id]
+      : [],
+  )
+  const pcbComponent = circuitJson.find(
+    (el): el is PcbComponent =>
+      el.type === "pcb_component" &&
+      el.source_component_id === sourceComponentId,
+  )!
+  expect(pcbComponent.center).toEqual({ x: 5, y: 2 })
+  expect(pcbComponent.rotation).toBe(90)
+
+  const pads = circuitJson.filter(
+    (el): el is PcbSmtPadRect =>
+      el.type === "pcb_smtpad" &&
+      el.pcb_component_id === pcbComponent.pcb_component_id,
+  )
+  expect(
+    pads.map((pad) => ({
+      x: pad.x,
+      y: Number(pad.y.toFixed(6)),
+      width: pad.width,
+      height: pad.height,
+    })),
+  ).toEqual([
+    { x: 5, y: 1, width: 0.4, height: 0.8 },
+    { x: 5, y: 3, width: 0.4, height: 0.8 },
+  ])
+
+  // The route lands on the moved R1-1 pad
+  const r1Pin1Port = circuitJson.find(
+    (el): el is PcbPort =>
+      el.type === "pcb_port" &&
+      el.pcb_component_id === pcbComponent.pcb_component_id &&
+      Math.abs(el.y - 1) < 1e-6,
+  )!
+  const [trace] = circuitJson.filter(
+    (el): el is PcbTrace => el.type === "pcb_trace",
+  )
+  const portIds = trace!.route.flatMap((point) =>
+    point.route_type === "wire"
+      ? [point.start_pcb_port_id, point.end_pcb_port_id]
+      : [],
+  )
+  expect(portIds).toContain(r1Pin1Port.pcb_port_id)
+  expect(
+    circuitJson.filter((el) => el.type === "pcb_trace_error"),
+  ).toHaveLength(0)
+})
+
+test("SES placement moves the keepouts of the component image", () => {
+  const dsnWithKeepouts = dsnContent.replace(
+    "(pin rect_pad 2 1000 0)",
+    `(pin rect_pad 2 1000 0)
+      (via_keepout (circle F.Cu 400 0 500))
+      (place_keepout (rect signal -2000 -500 2000 0))`,
+  )
+  // R1 moves to the back side at (5mm, 2mm), U1 stays in place
+  const sesWithFlip = sesContent.replace(
+    "(place R1 50000 20000 front 90)",
+    "(place R1 50000 20000 back 0)",
+  )
+
+  const keepouts = convertDsnAndSesToCircuitJson(
+    dsnWithKeepouts,
+    sesWithFlip,
+  ).filter((el): el is PCBKeepout => el.type === "pcb_keepout")
+
+  expect(
+    keepouts.map((keepout) => ({
+      description: keepout.description,
+      center: {
+        x: Number(keepout.center.x.toFixed(6)),
+        y: Number(keepout.center.y.toFixed(6)),
+      },
+      layers: keepout.layers,
+      ...(keepout.shape === "rect" && {
+        width: Number(keepout.width.toFixed(6)),
+        height: Number(keepout.height.toFixed(6)),
+      }),
+    })),
+  ).toEqual([
+    {
+      description: "via_keepout",
+      center: { x: -5, y: 0.5 },
+      layers: ["top"],
+    },
+    {
+      description: "place_keepout",
+      center: { x: -5, y: -0.25 },
+      layers: ["top", "bottom"],
+      width: 4,
+      height: 0.5,
+    },
+    {
+      description: "via_keepout",
+      center: { x: 5, y: 2.5 },
+      layers: ["bottom"],
+    },
+    {
+      description: "place_keepout",
+      center: { x: 5, y: 1.75 },
+      layers: ["top", "bottom"],
+      width: 4,
+      height: 0.5,
+    },
+  ])
+})
+
+test("SES placement is applied when the session has no routes", () => {
+  const placementOnlySesContent = `(session test.ses
+  (base_design test.dsn)
+  (placement
+    (resolution um 10)
+    (component pad2
+      (place R1 50000 20000 front 90)
+    )
+  )
+)`
+
+  const circuitJson = convertDsnAndSesToCircuitJson(
+    dsnContent,
+    placementOnlySesContent,
+  )
+
+  const pcbComponentCenters = circuitJson.flatMap((el) =>
+    el.type === "pcb_component" ? [el.center] : [],
+  )
+  expect(pcbComponentCenters).toEqual([
+    { x: -5, y: 0 },
+    { x: 5, y: 2 },
+  ])
+  expect(circuitJson.filter((el) => el.type === "pcb_trace")).toHaveLength(0)
+})
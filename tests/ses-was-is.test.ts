@@ -0,0 +1,71 @@
+import { expect, test } from "bun:test"
+import { cju } from "@tscircuit/circuit-json-util"
+import { convertDsnAndSesToCircuitJson } from "../lib/convertDsnAndSesToCircuitJson"
+
+const dsnContent = `(pcb test.dsn
+  (resolution um 10)
+  (unit um)
+  (structure
+    (layer F.Cu (type signal))
+    (boundary (path pcb 0 -10000 -10000 10000 -10000 10000 10000 -10000 10000 -10000 -10000))
+  )
+  (placement
+    (component pad2
+      (place U1 -5000 0 front 0)
+      (place R1 5000 0 front 0)
+    )
+  )
+  (library
+    (image pad2
+      (pin rect_pad 1 0 -1000)
+      (pin rect_pad 2 0 1000)
+    )
+    (padstack rect_pad
+      (shape (rect F.Cu -400 -200 400 200))
+    )
+  )
+  (network
+    (net N1 (pins U1-1 R1-1))
+    (net N2 (pins U1-2 R1-2))
+  )
+)`
+
+// The router swapped U1-1 and U1-2, so N1 is routed to U1-2 and N2 to U1-1
+const sesContent = `(session test.ses
+  (base_design test.dsn)
+  (was_is
+    (pins U1-1 U1-2)
+    (pins U1-2 U1-1)
+  )
+  (routes
+    (resolution um 10)
+    (parser)
+    (network_out
+      (net N1
+        (wire (path F.Cu 2000 -50000 10000 50000 -10000))
+      )
+      (net N2
+        (wire (path F.Cu 2000 -50000 -10000 50000 10000))
+      )
+    )
+  )
+)`
+
+test("SES was_is pin swaps rewrite net membership", () => {
+  const db = cju(convertDsnAndSesToCircuitJson(dsnContent, sesContent))
+
+  const getPinRefs = (netName: string) => {
+    const sourceTrace = db.source_trace
+      .list()
+      .find((trace) => trace.display_name === netName)!
+    return sourceTrace.connected_source_port_ids
+      .map((sourcePortId) => db.source_port.get(sourcePortId)!.name)
+      .sort()
+  }
+  expect(getPinRefs("N1")).toEqual(["R1-1", "U1-2"])
+  expect(getPinRefs("N2")).toEqual(["R1-2", "U1-1"])
+
+  // Both routes land on pads of their net after the swap
+  expect(db.pcb_trace.list()).toHaveLength(2)
+  expect(db.pcb_trace_error.list()).toHaveLength(0)
+})
@@ -0,0 +1,169 @@
+import { expect, test } from "bun:test"
+import { cju } from "@tscircuit/circuit-json-util"
+import type { CircuitJson } from "circuit-json"
+import { convertDsnToCircuitJson } from "../lib/dsn-to-circuit-json"
+import { convertDsnAndSesToCircuitJson } from "../lib/convertDsnAndSesToCircuitJson"
+
+// An L shaped board as KiCad exports it. In KiCad (Y down) the board is
+// 30x20mm with its lower right quarter cut away, J1 sits in the upper left
+// corner, U1 in the upper right arm and U2 on the back in the lower left.
+// The exporter negates KiCad Y, so a KiCad pin above pin 1 has a higher DSN Y.
+const dsnContent = `(pcb test.dsn
+  (resolution um 10)
+  (unit um)
+  (structure
+    (layer F.Cu (type signal))
+    (layer B.Cu (type signal))
+    (boundary (path pcb 0 0 0 30000 0 30000 -10000 15000 -10000 15000 -20000 0 -20000 0 0))
+  )
+  (placement
+    (component pad1
+      (place J1 5000 -5000 front 0)
+    )
+    (component sot
+      (place U1 25000 -5000 front 0)
+      (place U2 5000 -15000 back 90)
+    )
+  )
+  (library
+    (image pad1
+      (pin rect_pad 1 0 0)
+    )
+    (image sot
+      (pin rect_pad 1 -1000 -1000)
+      (pin rect_pad 2 1000 -1000)
+      (pin rect_pad 3 0 1000)
+    )
+    (padstack rect_pad
+      (shape (rect F.Cu -300 -200 300 200))
+    )
+    (padstack "Via[0-1]_600:300_um"
+      (shape (circle F.Cu 600))
+      (shape (circle B.Cu 600))
+    )
+  )
+  (network
+    (net N1 (pins J1-1 U1-1))
+  )
+  (wiring
+    (wire (path F.Cu 200 5000 -5000 15000 -5000) (net N1))
+  )
+)`
+
+const sesContent = `(session test.ses
+  (base_design test.dsn)
+  (placement
+    (resolution um 10)
+    (component pad1
+      (place J1 50000 -50000 front 0)
+    )
+    (component sot
+      (place U1 250000 -50000 front 0)
+      (place U2 80000 -150000 front 90)
+    )
+  )
+  (routes
+    (resolution um 10)
+    (parser)
+    (network_out
+      (net N1
+        (wire (path F.Cu 2000 50000 -50000 150000 -50000))
+        (via "Via[0-1]_600:300_um" 150000 -50000)
+        (wire (path B.Cu 2000 150000 -50000 240000 -50000 240000 -60000))
+      )
+    )
+  )
+)`
+
+const getPortPosition = (circuitJson: CircuitJson, name: string) => {
+  const db = cju(circuitJson)
+  const sourcePort = db.source_port.list().find((port) => port.name === name)
+  const pcbPort = db.pcb_port
+    .list()
+    .find((port) => port.source_port_id === sourcePort?.source_port_id)
+  return { x: pcbPort!.x, y: pcbPort!.y }
+}
+
+const round = (value: number) => Number(value.toFixed(6)) + 0
+
+// Every coordinate pair of the output, in element order
+const getPoints = (circuitJson: CircuitJson) =>
+  cju(circuitJson)
+    .toArray()
+    .flatMap((element: any) => [
+      ...(element.center ? [element.center] : []),
+      ...(element.x !== undefined ? [{ x: element.x, y: element.y }] : []),
+      ...(element.outline ?? []),
+      ...(element.points ?? []),
+      ...(element.route ?? []),
+    ])
+    .map((point: { x: number; y: number }) => ({
+      x: round(point.x),
+      y: round(point.y),
+    }))
+
+test("boards keep the handedness they have in KiCad", () => {
+  const circuitJson = convertDsnToCircuitJson(dsnContent)
+  const db = cju(circuitJson)
+
+  // The cut away quarter is at the lower right
+  const outline = db.pcb_board.list()[0]!.outline!
+  expect(outline).toContainEqual({ x: 15, y: 10 })
+  expect(outline).not.toContainEqual({ x: 15, y: -10 })
+
+  // J1 upper left, U1 upper right, the trace leaves J1 to the right
+  const j1 = getPortPosition(circuitJson, "J1-1")
+  const u1Pin1 = getPortPosition(circuitJson, "U1-1")
+  expect(j1).toEqual({ x: -10, y: 5 })
+  expect(u1Pin1).toEqual({ x: 9, y: 4 })
+  expect(db.pcb_trace.list()[0]!.route.at(-1)).toMatchObject({ x: 0, y: 5 })
+
+  // Pin 3 above pins 1 and 2, pin 2 right of pin 1
+  const u1Pin2 = getPortPosition(circuitJson, "U1-2")
+  const u1Pin3 = getPortPosition(circuitJson, "U1-3")
+  expect(u1Pin2.x).toBeGreaterThan(u1Pin1.x)
+  expect(u1Pin3.y).toBeGreaterThan(u1Pin1.y)
+})
+
+test("flipped yOrientation mirrors every element in Y", () => {
+  const preserved = convertDsnToCircuitJson(dsnContent)
+  const flipped = convertDsnToCircuitJson(dsnContent, { yOrientation: "flip" })
+
+  expect(getPoints(flipped)).toEqual(
+    getPoints(preserved).map(({ x, y }) => ({ x, y: round(-y) })),
+  )
+  expect(
+    cju(flipped)
+      .pcb_component.list()
+      .map((component) => component.rotation),
+  ).toEqual([0, 0, 270])
+})
+
+test("SES placement and routes follow the flipped yOrientation", () => {
+  const movedDsnContent = dsnContent.replace(
+    "(place U2 5000 -15000 back 90)",
+    "(place U2 8000 -15000 front 90)",
+  )
+  const dsnOnly = cju(
+    convertDsnToCircuitJson(movedDsnContent, { yOrientation: "flip" }),
+  )
+  const merged = cju(
+    convertDsnAndSesToCircuitJson(dsnContent, sesContent, {
+      yOrientation: "flip",
+    }),
+  )
+
+  // U2 lands where a DSN placing it there puts it
+  const getPads = (db: typeof merged) =>
+    db.pcb_smtpad.list().map((pad: any) => ({
+      x: round(pad.x),
+      y: round(pad.y),
+      width: round(pad.width),
+      height: round(pad.height),
+      layer: pad.layer,
+    }))
+  expect(getPads(merged)).toEqual(getPads(dsnOnly))
+
+  expect(merged.pcb_via.list()).toMatchObject([{ x: 0, y: -5 }])
+  expect(merged.pcb_trace_error.list()).toHaveLength(0)
+})